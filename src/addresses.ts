@@ -0,0 +1,205 @@
+import { createHash } from 'node:crypto';
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { normalizeGroupId } from './schedule';
+
+// Local street + house -> queue group lookup.
+//
+// The dataset is a CSV or JSON file loaded at startup:
+//   CSV:  street,house,group[,city][,region]   (header row required, any column order)
+//   JSON: [{ "street": "вул. Наукова", "house": "7а", "group": "3.1", "city": "Львів", "region": "loe" }]
+// `region` is a provider id (see ./providers) and defaults to the provider passed to the loader.
+
+export type AddressRecord = {
+  city?: string;
+  street: string;
+  house: string;
+  group: string;
+  region: string;
+};
+
+export type AddressDataset = {
+  version: string; // content hash, lets chats know their stored address needs re-resolving
+  records: AddressRecord[];
+  // normalized street -> records on that street
+  byStreet: Map<string, AddressRecord[]>;
+};
+
+export type AddressMatch =
+  | { kind: 'found'; record: AddressRecord; exactStreet: boolean }
+  | { kind: 'street_not_found'; suggestions: string[] }
+  | { kind: 'ambiguous_street'; suggestions: string[] }
+  | { kind: 'house_not_found'; street: string; houses: string[] }
+  | { kind: 'ambiguous_city'; cities: string[] };
+
+const STREET_PREFIX_RE =
+  /^(вулиця|вул|проспект|просп|пр-т|площа|пл|провулок|пров|бульвар|бульв|б-р|узвіз|тупик|шосе|майдан)\.?\s+/;
+
+// Folds the spelling variants people actually type: Ukrainian vs Russian letters,
+// apostrophe flavours, "вул."/"вулиця" prefixes and extra punctuation.
+export function normalizeStreetName(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/[ʼ’‘`'"«»]/g, '')
+    .replace(/[.,]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(STREET_PREFIX_RE, '')
+    .replace(/ґ/g, 'г')
+    .replace(/[єеёэ]/g, 'е')
+    // Russian "и"/"ы" and Ukrainian "и"/"і"/"ї"/"й" are the most common mix-ups in street names
+    .replace(/[иыіїй]/g, 'і')
+    .replace(/ъ/g, '')
+    .replace(/-/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+export function normalizeHouseNumber(raw: string): string {
+  return raw
+    .toLowerCase()
+    .replace(/\s+/g, '')
+    .replace(/[-–]/g, '')
+    .replace(/a/g, 'а')
+    .replace(/b/g, 'б')
+    .replace(/v/g, 'в')
+    .replace(/^буд\.?/, '');
+}
+
+function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i += 1) {
+    const cur = [i];
+    for (let j = 1; j <= b.length; j += 1) {
+      cur[j] = Math.min(prev[j] + 1, cur[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = cur;
+  }
+  return prev[b.length];
+}
+
+function parseCsvLine(line: string): string[] {
+  const out: string[] = [];
+  let cur = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i += 1) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i += 1;
+      } else if (ch === '"') quoted = false;
+      else cur += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',' || ch === ';') {
+      out.push(cur.trim());
+      cur = '';
+    } else cur += ch;
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function rowsFromCsv(raw: string): Record<string, string>[] {
+  const lines = raw.replace(/^\uFEFF/, '').split(/\r?\n/).filter((l) => l.trim().length > 0);
+  if (lines.length === 0) return [];
+  const header = parseCsvLine(lines[0]).map((h) => h.toLowerCase());
+  return lines.slice(1).map((line) => {
+    const cells = parseCsvLine(line);
+    const row: Record<string, string> = {};
+    header.forEach((h, idx) => {
+      row[h] = cells[idx] ?? '';
+    });
+    return row;
+  });
+}
+
+export function buildAddressDataset(rows: Record<string, any>[], defaultRegion: string, version: string): AddressDataset {
+  const records: AddressRecord[] = [];
+  for (const row of rows) {
+    const street = typeof row.street === 'string' ? row.street.trim() : '';
+    const house = row.house === undefined || row.house === null ? '' : String(row.house).trim();
+    const group = normalizeGroupId(String(row.group ?? ''));
+    if (!street || !house || !group) continue;
+    records.push({
+      city: typeof row.city === 'string' && row.city.trim() ? row.city.trim() : undefined,
+      street,
+      house,
+      group,
+      region: typeof row.region === 'string' && row.region.trim() ? row.region.trim() : defaultRegion,
+    });
+  }
+
+  const byStreet = new Map<string, AddressRecord[]>();
+  for (const r of records) {
+    const key = normalizeStreetName(r.street);
+    byStreet.set(key, [...(byStreet.get(key) ?? []), r]);
+  }
+  return { version, records, byStreet };
+}
+
+export async function loadAddressDataset(filePath: string, defaultRegion: string): Promise<AddressDataset> {
+  const raw = await fs.readFile(filePath, 'utf8');
+  const version = createHash('sha256').update(raw).digest('hex').slice(0, 16);
+  const rows =
+    path.extname(filePath).toLowerCase() === '.json' ? (JSON.parse(raw) as Record<string, any>[]) : rowsFromCsv(raw);
+  if (!Array.isArray(rows)) throw new Error(`Address dataset ${filePath} must be an array of records`);
+  return buildAddressDataset(rows, defaultRegion, version);
+}
+
+export function resolveAddress(
+  dataset: AddressDataset,
+  region: string,
+  street: string,
+  house: string,
+  city?: string,
+): AddressMatch {
+  const wanted = normalizeStreetName(street);
+  const wantedCity = city ? normalizeStreetName(city) : undefined;
+  const inScope = (r: AddressRecord) =>
+    r.region === region && (!wantedCity || !r.city || normalizeStreetName(r.city) === wantedCity);
+  const streets = [...dataset.byStreet.entries()]
+    .map(([key, records]) => ({ key, records: records.filter(inScope) }))
+    .filter((s) => s.records.length > 0);
+
+  let candidates = streets.filter((s) => s.key === wanted);
+  const exactStreet = candidates.length > 0;
+  if (!exactStreet) {
+    // Allow roughly one typo per five letters
+    const maxDistance = Math.max(1, Math.floor(wanted.length / 5));
+    const scored = streets
+      .map((s) => ({ ...s, distance: levenshtein(wanted, s.key) }))
+      .filter((s) => s.distance <= maxDistance || (wanted.length >= 4 && s.key.includes(wanted)))
+      .sort((a, b) => a.distance - b.distance);
+    if (scored.length === 0) {
+      const suggestions = streets
+        .map((s) => ({ name: s.records[0].street, distance: levenshtein(wanted, s.key) }))
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, 3)
+        .map((s) => s.name);
+      return { kind: 'street_not_found', suggestions };
+    }
+    candidates = scored.filter((s) => s.distance === scored[0].distance);
+  }
+  if (candidates.length > 1) {
+    return { kind: 'ambiguous_street', suggestions: candidates.slice(0, 5).map((c) => c.records[0].street) };
+  }
+
+  const { records } = candidates[0];
+  const wantedHouse = normalizeHouseNumber(house);
+  const exact = records.filter((r) => normalizeHouseNumber(r.house) === wantedHouse);
+  // "12а" usually shares a group with "12" when the dataset only lists the main building
+  const base = wantedHouse.match(/^\d+/)?.[0];
+  const fallback = base ? records.filter((r) => normalizeHouseNumber(r.house) === base) : [];
+  const matches = exact.length > 0 ? exact : fallback;
+  if (matches.length === 0) {
+    return { kind: 'house_not_found', street: records[0].street, houses: records.map((r) => r.house).slice(0, 20) };
+  }
+  // The same street + house can exist in several towns of the region
+  if (new Set(matches.map((r) => r.group)).size > 1) {
+    const cities = matches.map((r) => r.city ?? '').filter((c, idx, arr) => c && arr.indexOf(c) === idx);
+    return { kind: 'ambiguous_city', cities };
+  }
+  return { kind: 'found', record: matches[0], exactStreet };
+}
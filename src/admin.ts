@@ -0,0 +1,55 @@
+import { Lang, messages } from './i18n';
+import { BotState, UserState } from './state';
+import { providerFor } from './providers';
+
+// Operator-only commands; admins are listed in ADMIN_CHAT_IDS.
+
+// A preview that was not confirmed within this window has to be started again.
+export const BROADCAST_CONFIRM_TTL_MS = 10 * 60 * 1000;
+
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// "123, -100456 789" -> Set { '123', '-100456', '789' }
+export function parseAdminChatIds(raw: string | undefined): Set<string> {
+  return new Set((raw ?? '').split(/[\s,;]+/).filter((id) => /^-?\d+$/.test(id)));
+}
+
+function countBy(values: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], 'uk', { numeric: true }));
+}
+
+export function formatBotStats(state: BotState, lang: Lang): string {
+  const users = Object.values(state.users);
+  const watching = users.filter((u) => u.watching);
+  const groups = countBy(watching.flatMap((u) => u.groups ?? []));
+  const regions = countBy(users.map((u) => providerFor(u.providerId).name));
+  const withError = users.filter((u) => u.lastLoeError);
+  const withTomorrowError = users.filter((u) => u.lastLoeTomorrowError);
+
+  return messages(lang).botStats({
+    chats: users.length,
+    watching: watching.length,
+    withoutGroups: users.filter((u) => !u.groups?.length).length,
+    withAddress: users.filter((u) => u.address).length,
+    quietHours: users.filter((u) => u.quietHours).length,
+    digest: users.filter((u) => u.digestAt !== undefined).length,
+    reminders: users.filter((u) => u.remindLeadMinutes?.length).length,
+    regions: regions.map(([name, n]) => `${name}: ${n}`),
+    groups: groups.map(([g, n]) => `${g}: ${n}`),
+    todayErrors: withError.length,
+    tomorrowErrors: withTomorrowError.length,
+    deliveryErrors: users.filter((u) => u.lastDeliveryError).length,
+  });
+}
+
+// Full stored state of one chat; the cached schedules are the bulky part, so they go last
+// and get cut first when the dump does not fit into one message.
+export function formatUserDump(chatId: string, user: UserState, lang: Lang): string {
+  const { lastLoeSchedule, lastLoeTomorrowSchedule, heldMessages, ...rest } = user;
+  const head = `${messages(lang).userDumpTitle(chatId)}\n\n`;
+  const json = JSON.stringify({ ...rest, heldMessages, lastLoeSchedule, lastLoeTomorrowSchedule }, null, 2);
+  if (head.length + json.length <= TELEGRAM_MESSAGE_LIMIT) return head + json;
+  return `${head}${json.slice(0, TELEGRAM_MESSAGE_LIMIT - head.length - 20)}\n${messages(lang).userDumpTruncated}`;
+}
@@ -0,0 +1,125 @@
+import { Lang, messages } from './i18n';
+import { DaySchedule, formatOutageInterval, OutageInterval } from './schedule';
+import { KYIV_TIME_ZONE, parseClockMinutes, zonedDateTimeToEpochMs } from './time';
+
+// Upcoming outages as an iCalendar (RFC 5545) file, for /calendar and the subscription feed.
+
+// 2026-01-28T08:00:00.000Z -> 20260128T080000Z
+function icsDateTime(epochMs: number): string {
+  return new Date(epochMs).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines are limited to 75 octets; Cyrillic takes two octets per letter, so count bytes, not characters.
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let bytes = 0;
+  for (const ch of line) {
+    const size = Buffer.byteLength(ch);
+    // Continuation lines start with a space, which counts towards the limit
+    if (bytes + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+      bytes = 0;
+    }
+    current += ch;
+    bytes += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// The UID is the outage's position within its group and day, so it survives LOE moving the outage;
+// SEQUENCE (see outageEventSequence) makes clients that imported or cached the file replace the
+// event's times instead of keeping the old event next to a new one.
+export function outageEventUid(providerId: string, date: string, group: string, index: number): string {
+  return `${providerId}-${date}-${group}-${index + 1}@poweronbot`;
+}
+
+// Grows with every revision of the day's schedule: minutes since the Unix epoch of its publication time.
+// Schedules without one are treated as never revised.
+export function outageEventSequence(modifiedAt: number | undefined): number {
+  return modifiedAt === undefined ? 0 : Math.floor(modifiedAt / 60000);
+}
+
+export type OutageEvent = {
+  uid: string;
+  group: string;
+  start: number; // epoch ms
+  end: number;
+  interval: OutageInterval;
+  modifiedAt?: number; // when the schedule was published ("станом на"), for SEQUENCE and LAST-MODIFIED
+};
+
+// "2026-01-28T04:28" (Kyiv) -> epoch ms
+function scheduleUpdatedAtMs(updatedAt: string | undefined): number | undefined {
+  const [date, time] = (updatedAt ?? '').split('T');
+  const minutes = time ? parseClockMinutes(time) : null;
+  return date && minutes !== null ? zonedDateTimeToEpochMs(date, minutes) : undefined;
+}
+
+// Outages that already ended are left out; schedules without a known date are skipped.
+export function collectOutageEvents(
+  schedules: DaySchedule[],
+  groups: string[],
+  providerId: string,
+  now: number,
+): OutageEvent[] {
+  const events: OutageEvent[] = [];
+  for (const schedule of schedules) {
+    const date = schedule.date;
+    if (!date) continue;
+    const updatedAt = scheduleUpdatedAtMs(schedule.updatedAt);
+    const modifiedAt = updatedAt === undefined ? undefined : Math.min(updatedAt, now);
+    for (const group of groups) {
+      (schedule.groups[group]?.intervals ?? []).forEach((interval, idx) => {
+        const end = zonedDateTimeToEpochMs(date, interval.end);
+        if (end <= now) return;
+        const start = zonedDateTimeToEpochMs(date, interval.start);
+        events.push({ uid: outageEventUid(providerId, date, group, idx), group, start, end, interval, modifiedAt });
+      });
+    }
+  }
+  return events.sort((a, b) => a.start - b.start);
+}
+
+export function buildOutageCalendar(
+  events: OutageEvent[],
+  groups: string[],
+  providerName: string,
+  now: number,
+  lang: Lang,
+): string {
+  const m = messages(lang);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//PowerOnBot//Outage schedule//UK',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(m.calendarName(groups))}`,
+    `X-WR-TIMEZONE:${KYIV_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+  for (const e of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${e.uid}`,
+      `DTSTAMP:${icsDateTime(now)}`,
+      `SEQUENCE:${outageEventSequence(e.modifiedAt)}`,
+      ...(e.modifiedAt === undefined ? [] : [`LAST-MODIFIED:${icsDateTime(e.modifiedAt)}`]),
+      `DTSTART:${icsDateTime(e.start)}`,
+      `DTEND:${icsDateTime(e.end)}`,
+      `SUMMARY:${escapeText(m.calendarEventSummary(e.group))}`,
+      `DESCRIPTION:${escapeText(m.calendarEventDescription(providerName, e.group, formatOutageInterval(e.interval, lang)))}`,
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
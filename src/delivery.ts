@@ -0,0 +1,120 @@
+// Outgoing Telegram messages go through one queue so the bot stays under Telegram's rate limits:
+// about 30 messages per second overall, one per second per chat and 20 per minute per group.
+// A 429 pauses the whole queue for `retry_after` and the message is tried again.
+
+export const GLOBAL_SEND_INTERVAL_MS = 40;
+export const PRIVATE_CHAT_SEND_INTERVAL_MS = 1000;
+export const GROUP_CHAT_SEND_INTERVAL_MS = 3000;
+// Attempts per message, counting the first one; only rate-limited attempts are retried.
+export const MAX_SEND_ATTEMPTS = 4;
+
+export type SendQueue = {
+  // Runs `send` once the chat's turn comes; resolves with its result or rejects with its final error.
+  enqueue<T>(chatId: string, send: () => Promise<T>): Promise<T>;
+  pending(): number;
+  // Resolves once every queued message has been sent or has failed for good.
+  idle(): Promise<void>;
+};
+
+type Job = {
+  chatId: string;
+  send: () => Promise<unknown>;
+  resolve: (value: any) => void;
+  reject: (err: unknown) => void;
+  attempts: number;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Group and channel chat ids are negative.
+function chatIntervalMs(chatId: string): number {
+  return chatId.startsWith('-') ? GROUP_CHAT_SEND_INTERVAL_MS : PRIVATE_CHAT_SEND_INTERVAL_MS;
+}
+
+// Milliseconds Telegram asked us to wait, or undefined when the error is not a 429.
+export function retryAfterMs(err: any): number | undefined {
+  if (err?.response?.error_code !== 429) return undefined;
+  const seconds = Number(err.response.parameters?.retry_after);
+  return (Number.isFinite(seconds) && seconds > 0 ? seconds : 1) * 1000;
+}
+
+// The chat will not accept messages again: the user blocked the bot or deleted the account,
+// or the bot was removed from the group.
+export function isChatUnreachable(err: any): boolean {
+  const code = err?.response?.error_code;
+  const description = String(err?.response?.description ?? '');
+  return code === 403 || (code === 400 && /chat not found|user is deactivated/i.test(description));
+}
+
+export function describeDeliveryError(err: any): string {
+  return String(err?.response?.description ?? err?.message ?? err);
+}
+
+export function createSendQueue(): SendQueue {
+  const jobs: Job[] = [];
+  const chatReadyAt = new Map<string, number>();
+  let globalReadyAt = 0;
+  let running = false;
+  let idleWaiters: Array<() => void> = [];
+
+  async function run(): Promise<void> {
+    if (running) return;
+    running = true;
+    try {
+      while (jobs.length > 0) {
+        const now = Date.now();
+        // The first job whose chat may send now; a chat's own messages keep their order.
+        const idx = jobs.findIndex((j) => (chatReadyAt.get(j.chatId) ?? 0) <= now);
+        const readyAt = Math.max(
+          globalReadyAt,
+          idx === -1 ? Math.min(...jobs.map((j) => chatReadyAt.get(j.chatId) ?? 0)) : now,
+        );
+        if (readyAt > now) {
+          await sleep(readyAt - now);
+          continue;
+        }
+
+        const [job] = jobs.splice(idx, 1);
+        globalReadyAt = now + GLOBAL_SEND_INTERVAL_MS;
+        chatReadyAt.set(job.chatId, now + chatIntervalMs(job.chatId));
+        try {
+          job.resolve(await job.send());
+        } catch (err) {
+          const retryAfter = retryAfterMs(err);
+          job.attempts += 1;
+          if (retryAfter === undefined || job.attempts >= MAX_SEND_ATTEMPTS) {
+            job.reject(err);
+          } else {
+            console.warn(`Telegram rate limit hit, pausing sends for ${retryAfter}ms`);
+            globalReadyAt = Math.max(globalReadyAt, Date.now() + retryAfter);
+            jobs.unshift(job);
+          }
+        }
+
+        // Forget chats whose interval has passed so the map does not grow with every chat ever messaged
+        if (chatReadyAt.size > 1000) {
+          for (const [chatId, at] of chatReadyAt) if (at <= Date.now()) chatReadyAt.delete(chatId);
+        }
+      }
+    } finally {
+      running = false;
+      const waiters = idleWaiters;
+      idleWaiters = [];
+      for (const resolve of waiters) resolve();
+    }
+  }
+
+  return {
+    enqueue<T>(chatId: string, send: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        jobs.push({ chatId, send, resolve, reject, attempts: 0 });
+        run().catch((err: any) => console.error('Send queue stopped:', err?.message ?? err));
+      });
+    },
+    pending: () => jobs.length,
+    idle(): Promise<void> {
+      if (!running && jobs.length === 0) return Promise.resolve();
+      return new Promise<void>((resolve) => idleWaiters.push(resolve));
+    },
+  };
+}
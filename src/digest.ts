@@ -0,0 +1,45 @@
+import { Lang, messages } from './i18n';
+import { DaySchedule, formatOutageInterval, GroupSchedule } from './schedule';
+
+// The once-a-day summary sent at the time each chat picked with /digest.
+
+// If the bot was down at the chosen time, the digest is still sent when it comes back
+// within this window; later than that it would just be noise.
+export const DIGEST_CATCH_UP_MS = 3 * 60 * 60 * 1000;
+
+export function totalOutageMinutes(g: GroupSchedule | undefined): number {
+  return (g?.intervals ?? []).reduce((sum, i) => sum + (i.end - i.start), 0);
+}
+
+export function formatDuration(minutes: number, lang: Lang): string {
+  return messages(lang).duration(Math.floor(minutes / 60), minutes % 60);
+}
+
+export function formatDigest(
+  dateLabel: string,
+  today: DaySchedule | undefined,
+  groups: string[],
+  tomorrowPublished: boolean,
+  lang: Lang,
+): string {
+  const m = messages(lang);
+  const blocks = groups.map((group) => {
+    const g = today?.groups[group];
+    if (!g) return m.digestNoData(group);
+    if (g.intervals.length === 0) {
+      return g.powerOnAllDay ? m.digestPowerOnAllDay(group) : m.digestNoOutages(group);
+    }
+    return [
+      m.digestTotal(group, formatDuration(totalOutageMinutes(g), lang)),
+      ...g.intervals.map((i) => formatOutageInterval(i, lang)),
+    ].join('\n');
+  });
+
+  return [
+    m.digestTitle(dateLabel),
+    '',
+    today ? blocks.join('\n\n') : m.digestTodayMissing,
+    '',
+    tomorrowPublished ? m.digestTomorrowPublished : m.digestTomorrowMissing,
+  ].join('\n');
+}
@@ -0,0 +1,103 @@
+import { createHash } from 'node:crypto';
+import { Lang, messages } from './i18n';
+import {
+  DaySchedule,
+  formatDaySchedule,
+  formatScheduleDiff,
+  formatScheduleUpdatedAt,
+  sameSchedulesForGroups,
+} from './schedule';
+import { zonedClock, zonedDateString } from './time';
+
+// Every distinct schedule a provider published for a given day, in the order we saw them.
+
+export type ScheduleRevision = {
+  providerId: string;
+  date: string; // YYYY-MM-DD the schedule is for
+  seenAt: string; // ISO time we first saw this version
+  contentHash: string;
+  schedule: DaySchedule; // all groups, as published
+};
+
+// Header lines are part of the hash: a republication with a new "Інформація станом на …"
+// is a version of its own, even when no interval moved.
+export function scheduleContentHash(schedule: DaySchedule): string {
+  const groups = Object.keys(schedule.groups)
+    .sort()
+    .map((g) => schedule.groups[g]);
+  return createHash('sha256').update(JSON.stringify([schedule.headerLines, groups])).digest('hex');
+}
+
+export function buildScheduleRevision(
+  providerId: string,
+  schedule: DaySchedule,
+  fallbackDate: string,
+  seenAt: number,
+): ScheduleRevision {
+  return {
+    providerId,
+    date: schedule.date ?? fallbackDate,
+    seenAt: new Date(seenAt).toISOString(),
+    contentHash: scheduleContentHash(schedule),
+    schedule,
+  };
+}
+
+// "28.01", "28.01.2026" or "2026-01-28"; group ids like "3.1" are never dates (month has two digits).
+export function parseHistoryDate(token: string, now: number): string | undefined {
+  const iso = token.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (iso) return token;
+  const m = token.match(/^(\d{1,2})\.(\d{2})(?:\.(\d{4}))?$/);
+  if (!m) return undefined;
+  const year = m[3] ?? zonedDateString(now).slice(0, 4);
+  const day = Number(m[1]);
+  const month = Number(m[2]);
+  if (day < 1 || day > 31 || month < 1 || month > 12) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function formatHistoryDate(date: string): string {
+  const [y, m, d] = date.split('-');
+  return `${d}.${m}.${y}`;
+}
+
+function infoLine(schedule: DaySchedule, lang: Lang): string {
+  if (schedule.updatedAt) return formatScheduleUpdatedAt(schedule.updatedAt, lang);
+  if (lang !== 'uk') return '';
+  return schedule.headerLines.find((l) => /станом/i.test(l)) ?? schedule.headerLines[1] ?? '';
+}
+
+// Newest revisions win when the list is long: Telegram messages are capped at 4096 characters.
+const MAX_REVISIONS_SHOWN = 10;
+
+export function formatHistory(revisions: ScheduleRevision[], date: string, groups: string[], lang: Lang): string {
+  const m = messages(lang);
+  const title = m.historyTitle(formatHistoryDate(date), groups);
+  if (revisions.length === 0) return [title, '', m.historyEmpty].join('\n');
+
+  const blocks: string[] = [];
+  revisions.forEach((rev, idx) => {
+    const info = infoLine(rev.schedule, lang);
+    const head = `${idx + 1}) ${zonedClock(Date.parse(rev.seenAt))}${info ? ` — ${info}` : ''}`;
+    if (idx === 0) {
+      const body = formatDaySchedule(
+        { ...rev.schedule, date: undefined, updatedAt: undefined, headerLines: [] },
+        groups,
+        m.historyMissingGroup,
+        lang,
+      );
+      blocks.push([head, body].join('\n'));
+      return;
+    }
+    const prev = revisions[idx - 1].schedule;
+    const body = sameSchedulesForGroups(prev, rev.schedule, groups)
+      ? m.historyUnchanged
+      : formatScheduleDiff(prev, rev.schedule, groups, lang);
+    blocks.push([head, body].join('\n'));
+  });
+
+  const shown = blocks.length > MAX_REVISIONS_SHOWN ? blocks.slice(-MAX_REVISIONS_SHOWN) : blocks;
+  const summary = [title, m.historyVersions(revisions.length)];
+  if (shown.length < blocks.length) summary.push(m.historyShownLast(shown.length));
+  return [...summary, '', shown.join('\n\n')].join('\n');
+}
@@ -0,0 +1,308 @@
+import { pluralEn } from './plural';
+import { Messages } from './uk';
+
+const list = (items: readonly string[]) => items.join(', ');
+
+export const en: Messages = {
+  // Units and durations
+  seconds: (n: number) => `${n} ${pluralEn(n, ['second', 'seconds'])}`,
+  minutes: (n: number) => `${n} ${pluralEn(n, ['minute', 'minutes'])}`,
+  duration: (h: number, m: number) => (h === 0 ? `${m} min` : m === 0 ? `${h} h` : `${h} h ${m} min`),
+
+  // Schedules
+  scheduleTitle: (date: string) => `Hourly outage schedule for ${date}`,
+  scheduleAsOf: (time: string, date: string) => `Information as of ${time} ${date}`,
+  outageInterval: (from: string, to: string) => `from ${from} to ${to}`,
+  groupLabel: (group: string) => `Group ${group}.`,
+  noPower: 'No power:',
+  powerOnAllDay: 'Power is on all day.',
+  scheduleUnrecognized: '(Could not read the schedule)',
+  diffAdded: (range: string) => `➕ outage added ${range}`,
+  diffRemoved: (range: string) => `➖ outage cancelled ${range}`,
+  diffExtended: (from: string, to: string) => `⏫ extended ${from} → ${to}`,
+  diffShortened: (from: string, to: string) => `⏬ shortened ${from} → ${to}`,
+  diffMoved: (from: string, to: string) => `🔁 moved ${from} → ${to}`,
+  diffPowerOnAllDay: '💡 power will be on all day',
+  diffGroupGone: '(the group is missing from the update)',
+  diffGroupHeader: (group: string) => `Group ${group}:`,
+
+  // Notifications
+  checkedHeadline: '🔥 Schedule checked!',
+  todayHeadline: "🔥 Today's outage schedule!",
+  todayChangedHeadline: "🔥 Today's outage schedule has changed!",
+  todayImageChangedHeadline: "🖼️ Today's schedule picture was updated (text unchanged)",
+  tomorrowAppearedHeadline: "🗓️ Tomorrow's outage schedule is out!",
+  tomorrowChangedHeadline: "🗓️ Tomorrow's outage schedule has changed!",
+  tomorrowImageChangedHeadline: "🖼️ Tomorrow's schedule picture was updated (text unchanged)",
+  whatChanged: (diff: string) => `What changed:\n\n${diff}\n\nFull schedule:\n`,
+  textUnreadable: '(Could not read the text)',
+  missingInUpdate: '(Not found in the update)',
+  missingInTomorrow: "(Not found in tomorrow's schedule)",
+  pictureLink: 'Outage schedule',
+  pictureLinkToday: "Today's outage schedule",
+  pictureLinkTomorrow: 'Schedule (tomorrow)',
+  noGroupsError: 'No groups set. Use /groups and send, for example: 1.1, 3.2',
+  unknownCheckError: 'Unknown error while checking the schedule',
+  errorMessage: (error: string) => `❌ Error: ${error}`,
+  addressGroupMoved: (to: string, from?: string) =>
+    `ℹ️ Address data was updated: your address now belongs to group ${to}${from ? ` (was ${from})` : ''}.`,
+  sourceOutage: (source: string, duration: string, error: string) =>
+    `⚠️ Schedules from "${source}" have been unavailable for ${duration}.\nLast error: ${error}\n\nChange notifications may be late. I'll let you know when the source is back.`,
+  sourceRecovered: (source: string, duration: string) => `✅ "${source}" is available again (the outage lasted ${duration}).`,
+
+  // Quiet hours batch
+  heldHeader: '🌙 While quiet hours were on:',
+  heldSkipped: (n: number) => `(${n} older ${pluralEn(n, ['message', 'messages'])} skipped)`,
+
+  // Reminders
+  leadNow: 'now',
+  leadIn: (minutes: number) => `in ${minutes} min`,
+  reminderOff: (group: string, lead: string, from: string, to: string) =>
+    `⏰ Group ${group}: outage ${lead} (from ${from} to ${to})`,
+  reminderOn: (group: string, lead: string, to: string) => `💡 Group ${group}: power should be back ${lead} (at ${to})`,
+
+  // Digest
+  digestTitle: (date: string) => `☀️ Today's outage schedule, ${date}`,
+  digestNoData: (group: string) => `Group ${group}: no data in the schedule`,
+  digestPowerOnAllDay: (group: string) => `Group ${group}: power is on all day 💡`,
+  digestNoOutages: (group: string) => `Group ${group}: no outages planned`,
+  digestTotal: (group: string, duration: string) => `Group ${group}: without power for ${duration}`,
+  digestTodayMissing: "Today's schedule is not published yet.",
+  digestTomorrowPublished: "🗓️ Tomorrow's schedule is already published.",
+  digestTomorrowMissing: "🗓️ Tomorrow's schedule is not published yet.",
+
+  // Groups
+  possibleGroups: 'Available groups:',
+  pickerSave: '💾 Save',
+  pickerPickOne: 'Select at least one group',
+  pickerSaved: 'Saved',
+  typedGroupsHint: 'Or send the groups as a message, for example: 1.1; 3.2',
+  groupsQuestion: 'Which outage groups are you interested in?',
+  groupsPickHint: 'Select one or more groups and tap “Save”.',
+  groupsAddQuestion: 'Which groups should be added?',
+  groupsRemoveQuestion: 'Which groups should be removed?',
+  groupsPickShortHint: 'Select the groups and tap “Save”.',
+  allGroupsAdded: (groups: string[]) => `All groups are already added: ${list(groups)}`,
+  groupsEmptyUseAdd: 'No groups yet. Use /add_group',
+  groupsSaved: (groups: string[]) => ['Saved ✅', `Groups: ${list(groups)}`, '', 'Notifications: ON'].join('\n'),
+  groupsAdded: (groups: string[]) => `Added ✅\nGroups now: ${list(groups)}`,
+  groupsAddedWatching: (groups: string[]) => `Added ✅\nYou are watching these outage groups: ${list(groups)}`,
+  groupsRemoved: (groups: string[]) => `Removed ✅\nGroups now: ${list(groups)}`,
+  groupsRemovedEmpty: 'Removed ✅\nNo groups left. Use /groups',
+  groupsNotSet: 'No groups set. Use /groups (e.g. 1.1, 3.2)',
+  yourGroups: (groups: string[]) => `Your groups: ${list(groups)}`,
+  notAGroupList: "That doesn't look like a list of groups.",
+  example: (text: string) => `Example: ${text}`,
+  addGroupsFirst: 'Add your groups first: /add_group',
+
+  // Commands
+  welcome:
+    "Hi!\nI'm a bot that watches the hourly power outage schedule for the groups you pick and tells you when it changes.\nAdd your outage groups and I'll notify you when their schedule changes.",
+  checking: 'Checking…',
+  watchEnabled: "Outage tracking is on ✅\nI'll notify you when the outage schedule changes.",
+
+  addressStreetNotFound: "I couldn't find that street 🤔",
+  addressDidYouMean: (streets: string[]) => `Did you mean: ${list(streets)}`,
+  addressAmbiguousStreet: 'I found several similar streets:',
+  addressClarifyStreet: 'Please be more specific.',
+  addressHouseNotFound: (street: string) => `I couldn't find that house on ${street}.`,
+  addressKnownHouses: (houses: string[]) => `Known houses: ${list(houses)}`,
+  addressAmbiguousCity: 'This address exists in several towns.',
+  addressSpecifyCity: (cities: string[]) => (cities.length ? `Specify the town: ${list(cities)}` : 'Specify the town.'),
+  addressExampleWithCity: 'Example: /address Львів, Наукова, 7',
+  addressCurrent: (address: string, group?: string) => `Your address: ${address}${group ? ` (group ${group})` : ''}`,
+  addressPrompt: "Send your street and house number and I'll find your outage group.",
+  addressUsage: 'Example: /address Наукова, 7\nOr with the town: /address Львів, Наукова, 7',
+  addressUnavailable: 'Address lookup is not available right now 😔\nUse /add_group to set your group manually.',
+  addressFound: (address: string, group: string) => `Found ✅ ${address} — group ${group}`,
+  watchingGroups: (groups: string[]) => `You are watching these outage groups: ${list(groups)}`,
+
+  historyUnknownParam: (token: string) => `I didn't understand: ${token}`,
+  historyUsage: 'Example: /history\n/history 3.1\n/history 3.1 28.01',
+  historyNoGroups: 'No groups set. Specify a group: /history 3.1 or add groups with /add_group',
+  historyTitle: (date: string, groups: string[]) =>
+    `🗂 Schedule history for ${date} (${groups.length > 1 ? 'groups' : 'group'} ${list(groups)})`,
+  historyEmpty: 'No stored versions of the schedule for this date.',
+  historyMissingGroup: '(not in the schedule)',
+  historyUnchanged: 'No changes for these groups.',
+  historyVersions: (n: number) => `Versions: ${n}`,
+  historyShownLast: (n: number) => `(showing the last ${n})`,
+
+  statsUsage: 'Example: /stats_me — for a week, /stats_me month — for a month',
+  statsTitle: (period: 'week' | 'month', from: string, to: string) =>
+    `📊 Outages for the ${period} (${from} – ${to}), h:mm`,
+  statsTotal: 'Total',
+  statsNoData: (group: string) => `Group ${group}: no stored schedules for this period`,
+  statsGroupSummary: (group: string, total: string, days: number, average: string) =>
+    `Group ${group}: without power for ${total} over ${days} ${pluralEn(days, ['day', 'days'])}, ${average} a day on average`,
+  statsLongest: (duration: string, from: string, to: string) => `  longest: ${duration} (${from} – ${to})`,
+  statsNoOutages: '  no outages',
+  statsRevisions: (revisions: number, days: number) =>
+    `Schedule changes for your groups after publication: ${revisions} (days with changes: ${days})`,
+  statsNoRevisions: 'The schedule for your groups was not changed after publication.',
+
+  regionCurrent: (name: string) => `Your region: ${name}`,
+  regionAvailable: 'Available regions:',
+  regionUnknown: 'Unknown region.',
+  regionAlreadySet: (name: string) => `Region is already selected: ${name}`,
+  regionChanged: (name: string) => `Region changed ✅\n${name}`,
+
+  quietUsage: [
+    'Example: /quiet 23:00-07:00',
+    'Mode: /quiet silent — deliver without sound',
+    '/quiet hold — collect everything into one message after quiet hours',
+    'Turn off: /quiet off',
+    '',
+    'Changes affecting the next hour are always delivered.',
+  ].join('\n'),
+  quietCurrent: (range: string, mode: 'silent' | 'hold') =>
+    `Quiet hours: ${range} (${mode === 'silent' ? 'without sound' : 'one message afterwards'})`,
+  quietDisabled: 'Quiet hours are off.',
+  quietDisabledSaved: 'Quiet hours are off ✅',
+  quietNotARange: "That doesn't look like a time range.",
+  quietSetRangeFirst: 'Set the time first, for example: /quiet 23:00-07:00',
+  savedPrefix: 'Saved ✅',
+
+  digestCurrent: (time?: string) => (time === undefined ? 'Daily digest is off.' : `Daily digest every day at ${time}.`),
+  digestUsage: 'Example: /digest 07:00\nTurn off: /digest off',
+  digestNotATime: "That doesn't look like a time.",
+  digestDisabledSaved: 'Daily digest is off ✅',
+  digestSaved: (time: string) => `Saved ✅\nEvery day at ${time} I'll send today's schedule for your groups.`,
+
+  calendarLinkUnavailable: 'Calendar subscriptions are not set up on this server. Use /calendar to get a file.',
+  calendarLink: (url: string) =>
+    [
+      '🔗 Calendar subscription link:',
+      url,
+      '',
+      "Add it to your phone's calendar as a subscription (URL) — events will update automatically.",
+      "Don't share the link. Turn off: /calendar off",
+    ].join('\n'),
+  calendarLinkRevoked: 'Calendar link is off ✅\nThe old link no longer works.',
+  calendarEvents: (n: number) => `🗓️ Upcoming outages: ${n}. Open the file to add them to your calendar.`,
+  calendarNoEvents: '🗓️ No upcoming outages in the schedule.',
+  calendarAutoUpdate: 'Auto-update: /calendar link',
+  calendarName: (groups: string[]) => `Power outages: ${list(groups)}`,
+  calendarEventSummary: (group: string) => `🔌 No power (group ${group})`,
+  calendarEventDescription: (provider: string, group: string, interval: string) => `${provider}, group ${group}: ${interval}`,
+
+  nowTitle: (at: string) => `⚡ Status at ${at}`,
+  nowOn: (group: string, countdown: string, at: string, back?: string) =>
+    `💡 Group ${group}: power is on. Outage in ${countdown} (at ${at}${back ? `, until ${back}` : ''}).`,
+  nowOff: (group: string, countdown: string, at: string, nextOff?: string) =>
+    `🔌 Group ${group}: no power. Back in ${countdown} (at ${at}).${nextOff ? ` Next outage at ${nextOff}.` : ''}`,
+  nowOnNoOutages: (group: string, until: string) => `💡 Group ${group}: power is on. No outages scheduled until ${until}.`,
+  nowOffAtLeastUntil: (group: string, until: string) => `🔌 Group ${group}: no power, at least until ${until}.`,
+  nowUnknown: (group: string) => `❔ Group ${group}: today's schedule has no data for this group.`,
+  nowTomorrowSuffix: 'tomorrow',
+  nowTomorrowMissing: "Tomorrow's schedule isn't published yet, so later changes are unknown.",
+  nowAsOf: (at: string) => `Schedule data as of ${at}`,
+  nowNoData: 'No schedule has been fetched yet. Try /check.',
+
+  statusTitle: 'ℹ️ Bot status',
+  statusNotifications: (on: boolean) => `Notifications: ${on ? 'ON' : 'OFF'}`,
+  statusGroups: (groups: string) => `Groups: ${groups}`,
+  statusRegion: (name: string) => `Region: ${name}`,
+  statusSource: (url: string) => `Source: ${url}`,
+  statusToday: 'Today:',
+  statusTomorrow: 'Tomorrow:',
+  statusTomorrowSchedule: (status?: 'present' | 'missing') =>
+    `Schedule: ${status === 'present' ? 'published' : status === 'missing' ? 'not published yet' : '—'}`,
+  statusLastCheck: (at: string) => `Last check: ${at}`,
+  statusLastNotified: (at: string) => `Last notification: ${at}`,
+  statusError: (error?: string) => `Error: ${error ?? 'none'}`,
+  statusDelivery: (error?: string, at?: string) => `Message delivery: ${error ? `error ❌ ${error} (${at})` : 'OK'}`,
+  statusScheduler: 'Scheduler:',
+  statusLastCycle: (result?: { at: string; ok: boolean; error?: string }) =>
+    `Last full check: ${
+      result ? `${result.at} — ${result.ok ? 'source responded ✅' : `error ❌ ${result.error ?? ''}`}` : 'not yet'
+    }`,
+  statusNextCycle: (at?: string) => `Next check: ${at ?? 'running now'}`,
+
+  remindCurrent: (leads: number[]) =>
+    leads.length ? `Reminders: ${list(leads.map(String))} min before outages and before power returns.` : 'Reminders are off.',
+  remindUsage: 'Example: /remind 15,60 — remind 15 and 60 minutes before\nTurn off: /remind off',
+  remindNotAList: (max: number) =>
+    `That doesn't look like a list of minutes (0 to ${max}).\n\nExample: /remind 15,60\nTurn off: /remind off`,
+  remindSaved: (leads: number[]) =>
+    `Saved ✅\nI'll remind you ${list(leads.map(String))} min before outages and before power returns.`,
+  remindDisabledSaved: 'Reminders are off ✅',
+
+  langCurrent: 'Language: English 🇬🇧\nChoose a language:',
+  langSaved: 'Language changed ✅ English',
+  langUnknown: 'Available languages: uk — українська, en — English.\n\nExample: /lang uk',
+
+  // Admin
+  broadcastUsage: 'Example: /broadcast Message text for all chats',
+  broadcastPreview: (recipients: number) => `📣 Preview (recipients: ${recipients}):`,
+  broadcastSend: '✅ Send',
+  broadcastCancel: '✖️ Cancel',
+  broadcastCancelledToast: 'Cancelled',
+  broadcastCancelled: 'Broadcast cancelled.',
+  broadcastExpiredToast: 'The preview has expired',
+  broadcastExpired: 'The preview has expired. Send /broadcast again.',
+  broadcastSendingToast: 'Sending…',
+  broadcastDone: (delivered: number, failed: string[]) =>
+    [
+      '📣 Broadcast finished',
+      `Delivered: ${delivered}`,
+      `Failed: ${failed.length}`,
+      ...(failed.length ? ['', `Not delivered: ${list(failed.slice(0, 50))}${failed.length > 50 ? ', …' : ''}`] : []),
+    ].join('\n'),
+  userUsage: 'Example: /user 123456789',
+  userNotFound: (chatId: string) => `Chat ${chatId} not found.`,
+  userDumpTitle: (chatId: string) => `👤 Chat ${chatId}`,
+  userDumpTruncated: '… (truncated)',
+  forceCheckStarted: 'Checking all chats with notifications on…',
+  forceCheckResult: (provider: string, ok: boolean, error?: string) => `${provider}: ${ok ? 'OK ✅' : `error ❌ ${error ?? ''}`}`,
+  forceCheckDone: (duration: string, watching: number) => `Check finished in ${duration}.\nChats with notifications: ${watching}`,
+  botStats: (s) =>
+    [
+      '📊 Bot statistics',
+      '',
+      `Chats: ${s.chats}`,
+      `With notifications: ${s.watching}`,
+      `Without groups: ${s.withoutGroups}`,
+      `With an address: ${s.withAddress}`,
+      `Quiet hours: ${s.quietHours}`,
+      `Daily digest: ${s.digest}`,
+      `Reminders: ${s.reminders}`,
+      '',
+      'Regions:',
+      ...(s.regions.length ? s.regions : ['—']),
+      '',
+      'Groups (chats with notifications):',
+      ...(s.groups.length ? s.groups : ['—']),
+      '',
+      'Errors:',
+      `Today's schedule: ${s.todayErrors}`,
+      `Tomorrow's schedule: ${s.tomorrowErrors}`,
+      `Message delivery: ${s.deliveryErrors}`,
+    ].join('\n'),
+
+  // Bot menu ("/" in Telegram)
+  commands: {
+    start: 'Get started',
+    groups_list: 'Show selected groups',
+    add_group: 'Add groups',
+    remove_group: 'Remove groups',
+    check: 'Check now',
+    now: 'Is there power right now',
+    status: 'Check status and errors',
+    history: 'Schedule change history',
+    address: 'Find your group by address',
+    region: 'Choose the region (utility)',
+    quiet: 'Quiet hours',
+    digest: 'Daily digest',
+    remind: 'Reminders before outages',
+    calendar: 'Outages in your calendar (.ics)',
+    stats_me: 'Outage statistics for your groups',
+    lang: 'Мова / Language',
+  },
+  adminCommands: {
+    stats: 'Bot statistics',
+    broadcast: 'Message all chats',
+    user: 'Chat state by id',
+    force_check_all: 'Check all chats now',
+  },
+};
@@ -0,0 +1,32 @@
+import { en } from './en';
+import { Messages, uk } from './uk';
+
+export type { Messages } from './uk';
+
+export type Lang = 'uk' | 'en';
+
+export const LANGS: readonly Lang[] = ['uk', 'en'];
+
+export const DEFAULT_LANG: Lang = 'uk';
+
+// Button labels for /lang, each in its own language
+export const LANG_LABELS: Record<Lang, string> = { uk: '🇺🇦 Українська', en: '🇬🇧 English' };
+
+const CATALOGS: Record<Lang, Messages> = { uk, en };
+
+export function isLang(value: unknown): value is Lang {
+  return typeof value === 'string' && (LANGS as readonly string[]).includes(value);
+}
+
+// Telegram's language_code ("uk", "en-US", ...) -> catalog. Russian speakers get Ukrainian
+// rather than English: the schedules themselves are published in Ukrainian.
+export function langFromTelegram(code: string | undefined): Lang {
+  const base = (code ?? '').toLowerCase().split('-')[0];
+  if (!base) return DEFAULT_LANG;
+  if (base === 'uk' || base === 'ru' || base === 'be') return 'uk';
+  return isLang(base) ? base : 'en';
+}
+
+export function messages(lang: Lang | undefined): Messages {
+  return CATALOGS[lang ?? DEFAULT_LANG];
+}
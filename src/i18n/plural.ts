@@ -0,0 +1,13 @@
+// Plural forms for the catalogs: Ukrainian has three (1 хвилина, 2 хвилини, 5 хвилин), English two.
+
+export function pluralUk(n: number, forms: [one: string, few: string, many: string]): string {
+  const mod10 = n % 10;
+  const mod100 = n % 100;
+  if (mod10 === 1 && mod100 !== 11) return forms[0];
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return forms[1];
+  return forms[2];
+}
+
+export function pluralEn(n: number, forms: [one: string, other: string]): string {
+  return n === 1 ? forms[0] : forms[1];
+}
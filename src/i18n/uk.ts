@@ -0,0 +1,329 @@
+import { pluralUk } from './plural';
+
+// Ukrainian catalog. It is the reference: every other language must provide the same keys (see ./en).
+
+const list = (items: readonly string[]) => items.join(', ');
+
+export const uk = {
+  // Units and durations
+  seconds: (n: number) => `${n} ${pluralUk(n, ['секунду', 'секунди', 'секунд'])}`,
+  minutes: (n: number) => `${n} ${pluralUk(n, ['хвилину', 'хвилини', 'хвилин'])}`,
+  duration: (h: number, m: number) => (h === 0 ? `${m} хв` : m === 0 ? `${h} год` : `${h} год ${m} хв`),
+
+  // Schedules
+  scheduleTitle: (date: string) => `Графік погодинних відключень на ${date}`,
+  scheduleAsOf: (time: string, date: string) => `Інформація станом на ${time} ${date}`,
+  outageInterval: (from: string, to: string) => `з ${from} до ${to}`,
+  groupLabel: (group: string) => `Група ${group}.`,
+  noPower: 'Електроенергії немає:',
+  powerOnAllDay: 'Електроенергія є весь день.',
+  scheduleUnrecognized: '(Не вдалося розпізнати графік)',
+  diffAdded: (range: string) => `➕ додано відключення ${range}`,
+  diffRemoved: (range: string) => `➖ скасовано відключення ${range}`,
+  diffExtended: (from: string, to: string) => `⏫ подовжено ${from} → ${to}`,
+  diffShortened: (from: string, to: string) => `⏬ скорочено ${from} → ${to}`,
+  diffMoved: (from: string, to: string) => `🔁 перенесено ${from} → ${to}`,
+  diffPowerOnAllDay: '💡 електроенергія буде весь день',
+  diffGroupGone: '(група зникла з оновлення)',
+  diffGroupHeader: (group: string) => `Група ${group}:`,
+
+  // Notifications
+  checkedHeadline: '🔥 Оновлення перевірено!',
+  todayHeadline: '🔥 Графік відключень на сьогодні!',
+  todayChangedHeadline: '🔥 Графік відключень на сьогодні змінився!',
+  todayImageChangedHeadline: '🖼️ Оновилося зображення графіка на сьогодні (текст без змін)',
+  tomorrowAppearedHeadline: '🗓️ Зʼявився графік відключень на завтра!',
+  tomorrowChangedHeadline: '🗓️ Графік відключень на завтра змінився!',
+  tomorrowImageChangedHeadline: '🖼️ Оновилося зображення графіка на завтра (текст без змін)',
+  whatChanged: (diff: string) => `Що змінилось:\n\n${diff}\n\nПовний графік:\n`,
+  textUnreadable: '(Не вдалося прочитати текст)',
+  missingInUpdate: '(Не знайдено в оновленні)',
+  missingInTomorrow: '(Не знайдено в графіку на завтра)',
+  pictureLink: 'Графік відключень',
+  pictureLinkToday: 'Графік відключень на сьогодні',
+  pictureLinkTomorrow: 'Графік (завтра)',
+  noGroupsError: 'Не задано групи. Використайте /groups та введіть, наприклад: 1.1, 3.2',
+  unknownCheckError: 'Невідома помилка під час перевірки графіка',
+  errorMessage: (error: string) => `❌ Помилка: ${error}`,
+  addressGroupMoved: (to: string, from?: string) =>
+    `ℹ️ Оновилися дані про адреси: ваша адреса тепер належить до групи ${to}${from ? ` (було ${from})` : ''}.`,
+  sourceOutage: (source: string, duration: string, error: string) =>
+    `⚠️ Не вдається отримати графіки з джерела «${source}» вже ${duration}.\nОстання помилка: ${error}\n\nСповіщення про зміни можуть запізнюватися. Я повідомлю, коли джерело знову запрацює.`,
+  sourceRecovered: (source: string, duration: string) => `✅ Джерело «${source}» знову доступне (перебої тривали ${duration}).`,
+
+  // Quiet hours batch
+  heldHeader: '🌙 Поки діяв тихий режим:',
+  heldSkipped: (n: number) => `(ще ${n} ${pluralUk(n, ['старіше повідомлення', 'старіші повідомлення', 'старіших повідомлень'])} пропущено)`,
+
+  // Reminders
+  leadNow: 'зараз',
+  leadIn: (minutes: number) => `через ${minutes} хв`,
+  reminderOff: (group: string, lead: string, from: string, to: string) =>
+    `⏰ Група ${group}: відключення ${lead} (з ${from} до ${to})`,
+  reminderOn: (group: string, lead: string, to: string) => `💡 Група ${group}: електроенергія має повернутись ${lead} (о ${to})`,
+
+  // Digest
+  digestTitle: (date: string) => `☀️ Графік відключень на сьогодні, ${date}`,
+  digestNoData: (group: string) => `Група ${group}: немає даних у графіку`,
+  digestPowerOnAllDay: (group: string) => `Група ${group}: електроенергія є весь день 💡`,
+  digestNoOutages: (group: string) => `Група ${group}: відключень не заплановано`,
+  digestTotal: (group: string, duration: string) => `Група ${group}: без світла ${duration}`,
+  digestTodayMissing: 'Графік на сьогодні ще не опубліковано.',
+  digestTomorrowPublished: '🗓️ Графік на завтра вже опубліковано.',
+  digestTomorrowMissing: '🗓️ Графік на завтра ще не опубліковано.',
+
+  // Groups
+  possibleGroups: 'Доступні групи:',
+  pickerSave: '💾 Зберегти',
+  pickerPickOne: 'Позначте хоча б одну групу',
+  pickerSaved: 'Збережено',
+  typedGroupsHint: 'Або надішліть групи повідомленням, наприклад: 1.1; 3.2',
+  groupsQuestion: 'Які групи відключень вас цікавлять?',
+  groupsPickHint: 'Позначте одну або декілька груп і натисніть «Зберегти».',
+  groupsAddQuestion: 'Які групи додати?',
+  groupsRemoveQuestion: 'Які групи видалити?',
+  groupsPickShortHint: 'Позначте групи і натисніть «Зберегти».',
+  allGroupsAdded: (groups: string[]) => `Усі групи вже додано: ${list(groups)}`,
+  groupsEmptyUseAdd: 'Групи порожні. Використайте /add_group',
+  groupsSaved: (groups: string[]) => ['Збережено ✅', `Групи: ${list(groups)}`, '', 'Сповіщення: УВІМК.'].join('\n'),
+  groupsAdded: (groups: string[]) => `Додано ✅\nТепер групи: ${list(groups)}`,
+  groupsAddedWatching: (groups: string[]) =>
+    `Додано ✅\nВи відстежуєте такі групи відключень електроенергії: ${list(groups)}`,
+  groupsRemoved: (groups: string[]) => `Видалено ✅\nТепер групи: ${list(groups)}`,
+  groupsRemovedEmpty: 'Видалено ✅\nГрупи порожні. Використайте /groups',
+  groupsNotSet: 'Групи не задані. Використайте /groups (напр: 1.1, 3.2)',
+  yourGroups: (groups: string[]) => `Ваші групи: ${list(groups)}`,
+  notAGroupList: 'Не схоже на список груп.',
+  example: (text: string) => `Приклад: ${text}`,
+  addGroupsFirst: 'Спочатку додайте групи: /add_group',
+
+  // Commands
+  welcome:
+    'Привіт!\nЯ чат-бот який вміє відстежувати графік погодинних відключень для вибраних груп та сповіщати, коли він зміниться.\nДодай групи відключень електроенергії та я буду сповіщати тебе, коли вони зміняться.',
+  checking: 'Перевіряю…',
+  watchEnabled:
+    'Перевірка відключень електроенергії увімкнена ✅\nЯ буду сповіщати вас, якщо графік відключень електроенергії зміниться.',
+
+  addressStreetNotFound: 'Не знайшов такої вулиці 🤔',
+  addressDidYouMean: (streets: string[]) => `Можливо, ви мали на увазі: ${list(streets)}`,
+  addressAmbiguousStreet: 'Знайшов кілька схожих вулиць:',
+  addressClarifyStreet: 'Уточніть назву, будь ласка.',
+  addressHouseNotFound: (street: string) => `Не знайшов такого будинку на вулиці ${street}.`,
+  addressKnownHouses: (houses: string[]) => `Відомі будинки: ${list(houses)}`,
+  addressAmbiguousCity: 'Така адреса є в кількох населених пунктах.',
+  addressSpecifyCity: (cities: string[]) => (cities.length ? `Вкажіть місто: ${list(cities)}` : 'Вкажіть місто.'),
+  addressExampleWithCity: 'Приклад: /address Львів, Наукова, 7',
+  addressCurrent: (address: string, group?: string) => `Ваша адреса: ${address}${group ? ` (група ${group})` : ''}`,
+  addressPrompt: 'Вкажіть вулицю та номер будинку, і я знайду вашу групу відключень.',
+  addressUsage: 'Приклад: /address Наукова, 7\nАбо з містом: /address Львів, Наукова, 7',
+  addressUnavailable: 'Пошук за адресою зараз недоступний 😔\nВикористайте /add_group, щоб вказати групу вручну.',
+  addressFound: (address: string, group: string) => `Знайдено ✅ ${address} — група ${group}`,
+  watchingGroups: (groups: string[]) => `Ви відстежуєте такі групи відключень електроенергії: ${list(groups)}`,
+
+  historyUnknownParam: (token: string) => `Не зрозумів параметр: ${token}`,
+  historyUsage: 'Приклад: /history\n/history 3.1\n/history 3.1 28.01',
+  historyNoGroups: 'Групи не задані. Вкажіть групу: /history 3.1 або додайте групи через /add_group',
+  historyTitle: (date: string, groups: string[]) =>
+    `🗂 Історія графіка на ${date} (${groups.length > 1 ? 'групи' : 'група'} ${list(groups)})`,
+  historyEmpty: 'Немає збережених версій графіка на цю дату.',
+  historyMissingGroup: '(немає в графіку)',
+  historyUnchanged: 'Без змін для цих груп.',
+  historyVersions: (n: number) => `Версій: ${n}`,
+  historyShownLast: (n: number) => `(показано останні ${n})`,
+
+  statsUsage: 'Приклад: /stats_me — за тиждень, /stats_me month — за місяць',
+  statsTitle: (period: 'week' | 'month', from: string, to: string) =>
+    `📊 Відключення за ${period === 'week' ? 'тиждень' : 'місяць'} (${from} – ${to}), год:хв`,
+  statsTotal: 'Разом',
+  statsNoData: (group: string) => `Група ${group}: немає збережених графіків за цей період`,
+  statsGroupSummary: (group: string, total: string, days: number, average: string) =>
+    `Група ${group}: без світла ${total} за ${days} ${pluralUk(days, ['день', 'дні', 'днів'])}, в середньому ${average} на день`,
+  statsLongest: (duration: string, from: string, to: string) => `  найдовше: ${duration} (${from} – ${to})`,
+  statsNoOutages: '  відключень не було',
+  statsRevisions: (revisions: number, days: number) =>
+    `Змін графіка для ваших груп після публікації: ${revisions} (днів зі змінами: ${days})`,
+  statsNoRevisions: 'Графік для ваших груп не змінювали після публікації.',
+
+  regionCurrent: (name: string) => `Ваш регіон: ${name}`,
+  regionAvailable: 'Доступні регіони:',
+  regionUnknown: 'Невідомий регіон.',
+  regionAlreadySet: (name: string) => `Регіон вже вибрано: ${name}`,
+  regionChanged: (name: string) => `Регіон змінено ✅\n${name}`,
+
+  quietUsage: [
+    'Приклад: /quiet 23:00-07:00',
+    'Режим: /quiet silent — надсилати без звуку',
+    '/quiet hold — зібрати все в одне повідомлення після тихих годин',
+    'Вимкнути: /quiet off',
+    '',
+    'Зміни, що стосуються найближчої години, надходять завжди.',
+  ].join('\n'),
+  quietCurrent: (range: string, mode: 'silent' | 'hold') =>
+    `Тихі години: ${range} (${mode === 'silent' ? 'без звуку' : 'одним повідомленням після'})`,
+  quietDisabled: 'Тихі години вимкнені.',
+  quietDisabledSaved: 'Тихі години вимкнені ✅',
+  quietNotARange: 'Не схоже на проміжок часу.',
+  quietSetRangeFirst: 'Спочатку задайте час, наприклад: /quiet 23:00-07:00',
+  savedPrefix: 'Збережено ✅',
+
+  digestCurrent: (time?: string) => (time === undefined ? 'Щоденний огляд вимкнено.' : `Щоденний огляд щодня о ${time}.`),
+  digestUsage: 'Приклад: /digest 07:00\nВимкнути: /digest off',
+  digestNotATime: 'Не схоже на час.',
+  digestDisabledSaved: 'Щоденний огляд вимкнено ✅',
+  digestSaved: (time: string) => `Збережено ✅\nЩодня о ${time} надсилатиму графік на сьогодні для ваших груп.`,
+
+  calendarLinkUnavailable: 'Підписка на календар не налаштована на цьому сервері. Використайте /calendar, щоб отримати файл.',
+  calendarLink: (url: string) =>
+    [
+      '🔗 Посилання для підписки на календар:',
+      url,
+      '',
+      'Додайте його в календарі телефону як підписку (URL) — події оновлюватимуться автоматично.',
+      'Не поширюйте посилання. Вимкнути: /calendar off',
+    ].join('\n'),
+  calendarLinkRevoked: 'Посилання на календар вимкнено ✅\nСтаре посилання більше не працює.',
+  calendarEvents: (n: number) => `🗓️ Найближчі відключення: ${n}. Відкрийте файл, щоб додати їх у календар.`,
+  calendarNoEvents: '🗓️ Найближчих відключень у графіку немає.',
+  calendarAutoUpdate: 'Автооновлення: /calendar link',
+  calendarName: (groups: string[]) => `Відключення світла: ${list(groups)}`,
+  calendarEventSummary: (group: string) => `🔌 Немає світла (група ${group})`,
+  calendarEventDescription: (provider: string, group: string, interval: string) => `${provider}, група ${group}: ${interval}`,
+
+  nowTitle: (at: string) => `⚡ Стан на ${at}`,
+  nowOn: (group: string, countdown: string, at: string, back?: string) =>
+    `💡 Група ${group}: світло є. Відключення через ${countdown} (о ${at}${back ? `, до ${back}` : ''}).`,
+  nowOff: (group: string, countdown: string, at: string, nextOff?: string) =>
+    `🔌 Група ${group}: світла немає. Увімкнуть через ${countdown} (о ${at}).${nextOff ? ` Наступне відключення о ${nextOff}.` : ''}`,
+  nowOnNoOutages: (group: string, until: string) => `💡 Група ${group}: світло є. До ${until} відключень у графіку немає.`,
+  nowOffAtLeastUntil: (group: string, until: string) => `🔌 Група ${group}: світла немає щонайменше до ${until}.`,
+  nowUnknown: (group: string) => `❔ Група ${group}: у графіку на сьогодні немає даних.`,
+  nowTomorrowSuffix: 'завтра',
+  nowTomorrowMissing: 'Графік на завтра ще не опубліковано, тож пізніші зміни невідомі.',
+  nowAsOf: (at: string) => `Дані графіка станом на ${at}`,
+  nowNoData: 'Графік ще не завантажено. Спробуйте /check.',
+
+  statusTitle: 'ℹ️ Стан бота',
+  statusNotifications: (on: boolean) => `Сповіщення: ${on ? 'УВІМК.' : 'ВИМК.'}`,
+  statusGroups: (groups: string) => `Групи: ${groups}`,
+  statusRegion: (name: string) => `Регіон: ${name}`,
+  statusSource: (url: string) => `Джерело: ${url}`,
+  statusToday: 'Сьогодні:',
+  statusTomorrow: 'Завтра:',
+  statusTomorrowSchedule: (status?: 'present' | 'missing') =>
+    `Графік: ${status === 'present' ? 'опубліковано' : status === 'missing' ? 'ще не опубліковано' : '—'}`,
+  statusLastCheck: (at: string) => `Остання перевірка: ${at}`,
+  statusLastNotified: (at: string) => `Останнє сповіщення: ${at}`,
+  statusError: (error?: string) => `Помилка: ${error ?? 'немає'}`,
+  statusDelivery: (error?: string, at?: string) => `Доставка повідомлень: ${error ? `помилка ❌ ${error} (${at})` : 'OK'}`,
+  statusScheduler: 'Планувальник:',
+  statusLastCycle: (result?: { at: string; ok: boolean; error?: string }) =>
+    `Остання загальна перевірка: ${
+      result ? `${result.at} — ${result.ok ? 'джерело відповіло ✅' : `помилка ❌ ${result.error ?? ''}`}` : 'ще не було'
+    }`,
+  statusNextCycle: (at?: string) => `Наступна перевірка: ${at ?? 'виконується зараз'}`,
+
+  remindCurrent: (leads: number[]) =>
+    leads.length
+      ? `Нагадування: за ${list(leads.map(String))} хв до відключення та до повернення електроенергії.`
+      : 'Нагадування вимкнені.',
+  remindUsage: 'Приклад: /remind 15,60 — нагадати за 15 і за 60 хвилин\nВимкнути: /remind off',
+  remindNotAList: (max: number) =>
+    `Не схоже на список хвилин (від 0 до ${max}).\n\nПриклад: /remind 15,60\nВимкнути: /remind off`,
+  remindSaved: (leads: number[]) =>
+    `Збережено ✅\nНагадаю за ${list(leads.map(String))} хв до відключення та до повернення електроенергії.`,
+  remindDisabledSaved: 'Нагадування вимкнені ✅',
+
+  langCurrent: 'Мова: українська 🇺🇦\nОберіть мову:',
+  langSaved: 'Мову змінено ✅ Українська',
+  langUnknown: 'Доступні мови: uk — українська, en — English.\n\nПриклад: /lang en',
+
+  // Admin
+  broadcastUsage: 'Приклад: /broadcast Текст повідомлення для всіх чатів',
+  broadcastPreview: (recipients: number) => `📣 Попередній перегляд (отримувачів: ${recipients}):`,
+  broadcastSend: '✅ Надіслати',
+  broadcastCancel: '✖️ Скасувати',
+  broadcastCancelledToast: 'Скасовано',
+  broadcastCancelled: 'Розсилку скасовано.',
+  broadcastExpiredToast: 'Попередній перегляд застарів',
+  broadcastExpired: 'Попередній перегляд застарів. Надішліть /broadcast ще раз.',
+  broadcastSendingToast: 'Надсилаю…',
+  broadcastDone: (delivered: number, failed: string[]) =>
+    [
+      '📣 Розсилку завершено',
+      `Доставлено: ${delivered}`,
+      `Помилок: ${failed.length}`,
+      ...(failed.length ? ['', `Не доставлено: ${list(failed.slice(0, 50))}${failed.length > 50 ? ', …' : ''}`] : []),
+    ].join('\n'),
+  userUsage: 'Приклад: /user 123456789',
+  userNotFound: (chatId: string) => `Чат ${chatId} не знайдено.`,
+  userDumpTitle: (chatId: string) => `👤 Чат ${chatId}`,
+  userDumpTruncated: '… (обрізано)',
+  forceCheckStarted: 'Запускаю перевірку всіх чатів зі сповіщеннями…',
+  forceCheckResult: (provider: string, ok: boolean, error?: string) => `${provider}: ${ok ? 'OK ✅' : `помилка ❌ ${error ?? ''}`}`,
+  forceCheckDone: (duration: string, watching: number) =>
+    `Перевірку завершено за ${duration}.\nЧатів зі сповіщеннями: ${watching}`,
+  botStats: (s: {
+    chats: number;
+    watching: number;
+    withoutGroups: number;
+    withAddress: number;
+    quietHours: number;
+    digest: number;
+    reminders: number;
+    regions: string[];
+    groups: string[];
+    todayErrors: number;
+    tomorrowErrors: number;
+    deliveryErrors: number;
+  }) =>
+    [
+      '📊 Статистика бота',
+      '',
+      `Чатів усього: ${s.chats}`,
+      `Зі сповіщеннями: ${s.watching}`,
+      `Без груп: ${s.withoutGroups}`,
+      `З адресою: ${s.withAddress}`,
+      `Тихі години: ${s.quietHours}`,
+      `Щоденний огляд: ${s.digest}`,
+      `Нагадування: ${s.reminders}`,
+      '',
+      'Регіони:',
+      ...(s.regions.length ? s.regions : ['—']),
+      '',
+      'Групи (чати зі сповіщеннями):',
+      ...(s.groups.length ? s.groups : ['—']),
+      '',
+      'Помилки:',
+      `Графік на сьогодні: ${s.todayErrors}`,
+      `Графік на завтра: ${s.tomorrowErrors}`,
+      `Доставка повідомлень: ${s.deliveryErrors}`,
+    ].join('\n'),
+
+  // Bot menu ("/" in Telegram)
+  commands: {
+    start: 'Почати роботу',
+    groups_list: 'Показати вибрані групи',
+    add_group: 'Додати групи',
+    remove_group: 'Видалити групи',
+    check: 'Перевірити зараз',
+    now: 'Чи є світло зараз',
+    status: 'Стан перевірок та помилки',
+    history: 'Історія змін графіка',
+    address: 'Знайти групу за адресою',
+    region: 'Вибрати регіон (обленерго)',
+    quiet: 'Тихі години',
+    digest: 'Щоденний огляд',
+    remind: 'Нагадування перед відключенням',
+    calendar: 'Відключення у календар (.ics)',
+    stats_me: 'Статистика відключень для ваших груп',
+    lang: 'Мова / Language',
+  },
+  adminCommands: {
+    stats: 'Статистика бота',
+    broadcast: 'Розсилка всім чатам',
+    user: 'Стан чату за id',
+    force_check_all: 'Перевірити всі чати зараз',
+  },
+};
+
+export type Messages = typeof uk;
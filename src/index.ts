@@ -1,76 +1,63 @@
-import { Telegraf } from 'telegraf';
-import { load } from 'cheerio';
-import fs from 'node:fs/promises';
+import { Markup, Telegraf } from 'telegraf';
+import type { Server } from 'node:http';
 import path from 'node:path';
-
-type IsoDateString = string;
-
-type LoeMenuItem = {
-  id: number;
-  name: string;
-  slug: string;
-  imageUrl: string;
-  description: string;
-  rawHtml: string;
-  rawMobileHtml: string;
-};
-
-type LoeMenu = {
-  id: number;
-  name: string;
-  type: string;
-  menuItems: LoeMenuItem[];
-};
-
-type LoeMenusResponse = {
-  'hydra:member'?: LoeMenu[];
-};
-
-const POSSIBLE_GROUPS = [
-  '1.1',
-  '1.2',
-  '2.1',
-  '2.2',
-  '3.1',
-  '3.2',
-  '4.1',
-  '4.2',
-  '5.1',
-  '5.2',
-  '6.1',
-  '6.2',
-] as const;
-
-type PossibleGroup = (typeof POSSIBLE_GROUPS)[number];
-
-type UserState = {
-  // New LOE "group" tracking
-  groups?: string[]; // e.g. ["1.1", "3.2"]
-  pendingStep?: 'groups' | 'groups_add' | 'groups_remove';
-
-  watching: boolean;
-
-  // LOE-based tracking snapshot (for watched groups)
-  lastLoeCheckedAt?: IsoDateString;
-  lastLoeNotifiedAt?: IsoDateString;
-  lastLoeWatchedText?: string;
-  lastLoeError?: string;
-
-  // LOE "Tomorrow" tracking snapshot (for watched groups)
-  lastLoeTomorrowCheckedAt?: IsoDateString;
-  lastLoeTomorrowNotifiedAt?: IsoDateString;
-  lastLoeTomorrowWatchedText?: string;
-  lastLoeTomorrowStatus?: 'missing' | 'present';
-  lastLoeTomorrowError?: string;
-};
-
-type BotState = {
-  users: Record<string, UserState>;
-};
+import { randomBytes } from 'node:crypto';
+import { DaySchedule, formatMinutes, normalizeGroupId } from './schedule';
+import {
+  CircuitBreaker,
+  createCircuitBreaker,
+  DEFAULT_PROVIDER_ID,
+  fetchErrorCategory,
+  findProvider,
+  providerFor,
+  SCHEDULE_PROVIDERS,
+  ScheduleProvider,
+  ScheduleDayItem,
+  ScheduleSnapshot,
+  withRetries,
+} from './providers';
+import { BotState, UserState } from './state';
+import { createStorage, StateStorage, UnreadableStateAction } from './storage';
+import { buildScheduleRevision, formatHistory, formatHistoryDate, parseHistoryDate } from './history';
+import {
+  collapseHeldMessages,
+  formatQuietHours,
+  isQuietAt,
+  parseQuietRange,
+  quietDelivery,
+  QuietMode,
+} from './quiet';
+import { evaluateChatSnapshot, EvaluatedSnapshot, evaluationKey, sameEvaluation } from './notifications';
+import { DIGEST_CATCH_UP_MS, formatDigest, formatDuration } from './digest';
+import { formatZonedDateTime, parseClockMinutes, shiftDate, zonedDateString, zonedDateTimeToEpochMs } from './time';
+import { AddressDataset, AddressMatch, loadAddressDataset, resolveAddress } from './addresses';
+import { closeHttpServer, isValidSecretToken, publicUrl, startHttpServer } from './server';
+import { buildOutageCalendar, collectOutageEvents } from './calendar';
+import { formatGroupPowerStatus, groupPowerStatus } from './now';
+import { nextPollingDelay, parseDelayRange, parsePollingWindows, PollingDecision, PollingPolicy, PollingState } from './polling';
+import { computeOutageStats, formatOutageStats, parseStatsPeriod, STATS_PERIOD_DAYS } from './stats';
+import { BROADCAST_CONFIRM_TTL_MS, formatBotStats, formatUserDump, parseAdminChatIds } from './admin';
+import { createSendQueue, describeDeliveryError, isChatUnreachable } from './delivery';
+import { collectDueReminders, MAX_REMIND_LEAD_MINUTES, parseRemindLeadMinutes, pruneReminderKeys } from './reminders';
+import { DEFAULT_LANG, isLang, Lang, LANG_LABELS, langFromTelegram, LANGS, messages } from './i18n';
 
 const STATE_FILE_PATH = path.join(process.cwd(), 'label-state.json');
+// 'json' (default) keeps everything in label-state.json; 'sqlite' stores one row per chat and
+// imports label-state.json once on first start.
+const STATE_BACKEND = String(process.env.STATE_BACKEND ?? 'json').toLowerCase();
+const SQLITE_PATH = process.env.SQLITE_PATH ?? path.join(process.cwd(), 'label-state.sqlite');
+// A state file that cannot be parsed stops the bot ('fail', default) or is renamed to
+// label-state.json.unreadable-<time> and the bot starts with no chats ('quarantine').
+const STATE_ON_UNREADABLE = String(process.env.STATE_ON_UNREADABLE ?? 'fail').toLowerCase();
+if (STATE_ON_UNREADABLE !== 'fail' && STATE_ON_UNREADABLE !== 'quarantine') {
+  throw new Error("STATE_ON_UNREADABLE must be 'fail' or 'quarantine'");
+}
+// Schedule history for the JSON backend (the SQLite backend keeps it in the database)
+const HISTORY_FILE_PATH = process.env.HISTORY_FILE_PATH ?? path.join(process.cwd(), 'schedule-history.json');
+const ADDRESS_DATASET_PATH = process.env.ADDRESS_DATASET_PATH ?? path.join(process.cwd(), 'data', 'addresses.csv');
 // Scheduling:
-// - By default, checks run on a randomized cadence between 15 and 35 minutes.
+// - By default, checks run on a randomized cadence between CHECK_EVERY_MIN_MS and CHECK_EVERY_MAX_MS,
+//   adapted to the time of day and to tomorrow's publication (see POLLING_POLICY below).
 // - For backwards-compatibility, you can pin a fixed cadence by setting CHECK_EVERY_MS.
 const DEFAULT_CHECK_EVERY_MIN_MS = 15 * 60 * 1000;
 const DEFAULT_CHECK_EVERY_MAX_MS = 20 * 60 * 1000;
@@ -89,75 +76,109 @@ if (!Number.isFinite(CHECK_EVERY_MAX_MS) || CHECK_EVERY_MAX_MS <= 0) {
 if (CHECK_EVERY_MIN_MS > CHECK_EVERY_MAX_MS) {
   throw new Error('CHECK_EVERY_MIN_MS must be <= CHECK_EVERY_MAX_MS');
 }
-
-function randomIntInclusive(min: number, max: number): number {
-  const a = Math.ceil(min);
-  const b = Math.floor(max);
-  return Math.floor(Math.random() * (b - a + 1)) + a;
+// Polls every POLL_TOMORROW_EVERY minutes from POLL_TOMORROW_FROM while tomorrow's schedule is missing,
+// every POLL_AFTER_PUBLISH_EVERY minutes for POLL_AFTER_PUBLISH_FOR_MS after it appears, and
+// POLL_WINDOWS ("18:00-23:00=5-10, ...") sets other time-of-day windows. Ranges are in minutes.
+const POLLING_POLICY: PollingPolicy = {
+  base: { minMs: CHECK_EVERY_MIN_MS, maxMs: CHECK_EVERY_MAX_MS },
+  windows: pollingSetting('POLL_WINDOWS', '', parsePollingWindows, 'comma-separated HH:MM-HH:MM=minutes, e.g. 18:00-23:00=5-10'),
+  tomorrowMissingFrom: pollingSetting('POLL_TOMORROW_FROM', '16:00', parseClockMinutes, 'a time like 16:00'),
+  tomorrowMissing: pollingSetting('POLL_TOMORROW_EVERY', '5-8', parseDelayRange, 'minutes, e.g. 5-8'),
+  afterPublish: pollingSetting('POLL_AFTER_PUBLISH_EVERY', '25-35', parseDelayRange, 'minutes, e.g. 25-35'),
+  afterPublishForMs: Number(process.env.POLL_AFTER_PUBLISH_FOR_MS ?? 60 * 60 * 1000),
+};
+if (!Number.isFinite(POLLING_POLICY.afterPublishForMs) || POLLING_POLICY.afterPublishForMs < 0) {
+  throw new Error('POLL_AFTER_PUBLISH_FOR_MS must be a non-negative number (milliseconds)');
 }
-
-function nextCheckDelayMs(): number {
-  if (FIXED_CHECK_EVERY_MS !== undefined) return FIXED_CHECK_EVERY_MS;
-  return randomIntInclusive(CHECK_EVERY_MIN_MS, CHECK_EVERY_MAX_MS);
+// Reminders are evaluated on a fixed tick; anything that should have fired longer ago
+// than the grace window (e.g. while the bot was down) is skipped.
+const REMINDER_TICK_MS = 60 * 1000;
+const REMINDER_GRACE_MS = 5 * 60 * 1000;
+// Daily digests run on their own fixed tick, independent of the randomized LOE polling.
+const DIGEST_TICK_MS = 60 * 1000;
+// On shutdown, how long queued notifications may take to go out before the bot exits anyway.
+const SHUTDOWN_SEND_DRAIN_MS = 20 * 1000;
+// /check and other on-demand checks reuse the cycle's snapshot if it is at most this old.
+const MANUAL_CHECK_SNAPSHOT_MAX_AGE_MS = Number(process.env.MANUAL_CHECK_SNAPSHOT_MAX_AGE_MS ?? 60 * 1000);
+// Schedule source requests time out after SOURCE_FETCH_TIMEOUT_MS and are retried SOURCE_FETCH_RETRIES
+// times with exponential backoff. After a few failed refreshes in a row the source is left alone for a while.
+const SOURCE_FETCH_TIMEOUT_MS = Number(process.env.SOURCE_FETCH_TIMEOUT_MS ?? 15 * 1000);
+const SOURCE_FETCH_RETRIES = Number(process.env.SOURCE_FETCH_RETRIES ?? 2);
+if (!Number.isFinite(SOURCE_FETCH_TIMEOUT_MS) || SOURCE_FETCH_TIMEOUT_MS <= 0) {
+  throw new Error('SOURCE_FETCH_TIMEOUT_MS must be a positive number (milliseconds)');
 }
-
-function formatInterval(ms: number): string {
-  const sec = Math.round(ms / 1000);
-  if (sec < 60) return `${sec} секунд`;
-  const min = Math.round(sec / 60);
-  return `${min} хвилин`;
+if (!Number.isInteger(SOURCE_FETCH_RETRIES) || SOURCE_FETCH_RETRIES < 0) {
+  throw new Error('SOURCE_FETCH_RETRIES must be a non-negative integer');
 }
-
-function formatIntervalRange(minMs: number, maxMs: number): string {
-  if (minMs === maxMs) return formatInterval(minMs);
-  return `${formatInterval(minMs)}–${formatInterval(maxMs)}`;
+const SOURCE_FETCH_BACKOFF_MS = 2 * 1000;
+const SOURCE_CIRCUIT_FAILURES = 3;
+const SOURCE_CIRCUIT_COOLDOWN_MS = 5 * 60 * 1000;
+const SOURCE_CIRCUIT_MAX_COOLDOWN_MS = 60 * 60 * 1000;
+// A source failing for longer than SOURCE_OUTAGE_ALERT_AFTER_MS is reported, and again when it recovers:
+// to admins ('admins', default), to admins and every chat watching it ('watching'), or not at all ('off').
+const SOURCE_OUTAGE_ALERT_AFTER_MS = Number(process.env.SOURCE_OUTAGE_ALERT_AFTER_MS ?? 60 * 60 * 1000);
+const SOURCE_OUTAGE_ALERTS = String(process.env.SOURCE_OUTAGE_ALERTS ?? 'admins').toLowerCase();
+if (!Number.isFinite(SOURCE_OUTAGE_ALERT_AFTER_MS) || SOURCE_OUTAGE_ALERT_AFTER_MS < 0) {
+  throw new Error('SOURCE_OUTAGE_ALERT_AFTER_MS must be a non-negative number (milliseconds)');
 }
-
-function normalizeHtml(html: string): string {
-  return html.replace(/\s+/g, ' ').trim();
+if (SOURCE_OUTAGE_ALERTS !== 'admins' && SOURCE_OUTAGE_ALERTS !== 'watching' && SOURCE_OUTAGE_ALERTS !== 'off') {
+  throw new Error("SOURCE_OUTAGE_ALERTS must be 'admins', 'watching' or 'off'");
 }
-
-function normalizeMultilineText(raw: string): string {
-  return raw
-    .replace(/\r\n/g, '\n')
-    .split('\n')
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0)
-    .join('\n')
-    .trim();
+// 'polling' (default) or 'webhook'. Webhook mode serves updates over HTTP on PORT; WEBHOOK_URL is the
+// public base URL registered with Telegram (leave it unset to run the server locally without registering).
+const BOT_MODE = String(process.env.BOT_MODE ?? 'polling').toLowerCase();
+if (BOT_MODE !== 'polling' && BOT_MODE !== 'webhook') {
+  throw new Error("BOT_MODE must be 'polling' or 'webhook'");
 }
-
-function absoluteLoeMediaUrl(pathname: string): string {
-  if (!pathname) return '';
-  if (/^https?:\/\//i.test(pathname)) return pathname;
-  const p = pathname.startsWith('/') ? pathname : `/${pathname}`;
-  return `https://api.loe.lviv.ua${p}`;
+const WEBHOOK_URL = process.env.WEBHOOK_URL;
+const WEBHOOK_PATH = process.env.WEBHOOK_PATH ?? '/telegram';
+const WEBHOOK_SECRET_TOKEN = process.env.WEBHOOK_SECRET_TOKEN ?? '';
+const PORT = Number(process.env.PORT ?? 3000);
+// Public base URL of the HTTP server for calendar feed links (/calendar link). Setting it starts the
+// HTTP server in polling mode too; in webhook mode it defaults to WEBHOOK_URL.
+const PUBLIC_URL = process.env.PUBLIC_URL ?? WEBHOOK_URL;
+const HTTP_SERVER_ENABLED = BOT_MODE === 'webhook' || Boolean(PUBLIC_URL);
+if (BOT_MODE === 'webhook') {
+  if (!isValidSecretToken(WEBHOOK_SECRET_TOKEN)) {
+    throw new Error('WEBHOOK_SECRET_TOKEN is required in webhook mode (1-256 characters: A-Z, a-z, 0-9, _ and -)');
+  }
+  if (!WEBHOOK_PATH.startsWith('/')) throw new Error("WEBHOOK_PATH must start with '/'");
+}
+if (HTTP_SERVER_ENABLED && (!Number.isInteger(PORT) || PORT <= 0)) throw new Error('PORT must be a positive integer');
+// Chat ids allowed to use /broadcast, /stats, /user and /force_check_all (comma-separated)
+const ADMIN_CHAT_IDS = parseAdminChatIds(process.env.ADMIN_CHAT_IDS);
+
+function pollingSetting<T>(name: string, fallback: string, parse: (raw: string) => T | null, expected: string): T {
+  const value = parse(process.env[name] ?? fallback);
+  if (value === null) throw new Error(`${name} must be ${expected}`);
+  return value;
 }
 
-function extractGroupLinesOnly(text: string): string {
-  return normalizeMultilineText(text)
-    .split('\n')
-    .filter((l) => /^Група\s+\d+[.,]\d+\./i.test(l))
-    .join('\n')
-    .trim();
+function nextCheckDelay(): PollingDecision {
+  if (FIXED_CHECK_EVERY_MS !== undefined) return { delayMs: FIXED_CHECK_EVERY_MS, reason: 'fixed CHECK_EVERY_MS' };
+  return nextPollingDelay(POLLING_POLICY, pollingState(Date.now()));
 }
 
-function textFromRawHtml(rawHtml: string): string {
-  if (!rawHtml) return '';
-  const $ = load(rawHtml);
-  return normalizeMultilineText($.text());
+// Only sources somebody watches count; a "Tomorrow" LOE still shows for today is as good as missing.
+function pollingState(now: number): PollingState {
+  const watched = new Set(Object.values(state.users).filter((u) => u.watching).map((u) => providerFor(u.providerId).id));
+  const today = zonedDateString(now);
+  const tomorrowMissing = [...watched].some((id) => {
+    const date = snapshots[id]?.tomorrow?.schedule.date;
+    return !snapshots[id]?.tomorrow || (date !== undefined && date <= today);
+  });
+  const publishedAt = [...watched].map((id) => tomorrowPublishedAt[id]).filter((at): at is number => at !== undefined);
+  return { now, tomorrowMissing, tomorrowPublishedAt: publishedAt.length ? Math.max(...publishedAt) : undefined };
 }
 
-function normalizeGroupId(raw: string): string | null {
-  const s = raw.trim();
-  if (!s) return null;
-  // Accept both dot and comma between numbers: 1.1 or 1,1
-  const m = s.match(/^(\d+)[.,](\d+)$/);
-  if (!m) return null;
-  return `${Number(m[1])}.${Number(m[2])}`;
+function formatInterval(ms: number, lang: Lang): string {
+  const sec = Math.round(ms / 1000);
+  if (sec < 60) return messages(lang).seconds(sec);
+  const min = Math.round(sec / 60);
+  return messages(lang).minutes(min);
 }
 
-function parseGroupsFromUserInput(raw: string): string[] {
+function parseGroupsFromUserInput(raw: string, possibleGroups: readonly string[]): string[] {
   // Extract group-like tokens from free-form input.
   // Supports separators: comma or dot inside group id (1,1 or 1.1)
   // Supports multiple groups in one message using ";" (or any other text).
@@ -169,149 +190,45 @@ function parseGroupsFromUserInput(raw: string): string[] {
     if (g && !out.includes(g)) out.push(g);
   }
   // Validate against known possible groups
-  return out.filter((g) => (POSSIBLE_GROUPS as readonly string[]).includes(g));
-}
-
-function formatPossibleGroups(): string {
-  return [
-    'Доступні групи:',
-    '1.1, 1.2',
-    '2.1, 2.2',
-    '3.1, 3.2',
-    '4.1, 4.2',
-    '5.1, 5.2',
-    '6.1, 6.2',
-  ].join('\n');
-}
-
-function parseGroupSchedulesFromText(text: string): Record<string, string> {
-  // Input example lines (from LOE rawHtml):
-  // "Група 1.1. Електроенергії немає з 05:30 до 09:00, з 16:00 до 19:30."
-  const lines = normalizeMultilineText(text).split('\n');
-  const map: Record<string, string> = {};
-  for (const line of lines) {
-    const m = line.match(/Група\s+(\d+\.\d+)\./i);
-    if (!m) continue;
-    const g = normalizeGroupId(m[1]);
-    if (!g) continue;
-    map[g] = line;
-  }
-  return map;
-}
-
-async function fetchLoePhotoGraficMenuItems(): Promise<{
-  menuName: string;
-  sourceUrl: string;
-  today?: { item: LoeMenuItem; itemText: string; imageUrl: string };
-  tomorrow?: { item: LoeMenuItem; itemText: string; imageUrl: string };
-}> {
-  const defaultType = 'photo-grafic';
-  const type = String(process.env.LOE_MENU_TYPE ?? defaultType);
-  const sourceUrl = String(
-    process.env.LOE_MENUS_URL ?? `https://api.loe.lviv.ua/api/menus?page=1&type=${encodeURIComponent(type)}`,
-  );
+  return out.filter((g) => possibleGroups.includes(g));
+}
 
-  const res = await fetch(sourceUrl, {
-    headers: {
-      accept: 'application/ld+json,application/json;q=0.9,*/*;q=0.8',
-      'user-agent':
-        'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120 Safari/537.36',
-    },
-  });
-  if (!res.ok) {
-    throw new Error(`HTTP ${res.status} when calling LOE API`);
+// One row per queue: ["1.1", "1.2"], ["2.1", "2.2"], ...
+function groupRows(possibleGroups: readonly string[]): string[][] {
+  const rows: string[][] = [];
+  for (const g of possibleGroups) {
+    const queue = g.split('.')[0];
+    const row = rows.find((r) => r[0].split('.')[0] === queue);
+    if (row) row.push(g);
+    else rows.push([g]);
   }
+  return rows;
+}
 
-  const data = (await res.json()) as LoeMenusResponse;
-  const menu = data['hydra:member']?.[0];
-  if (!menu || !Array.isArray(menu.menuItems)) {
-    throw new Error('LOE API response did not contain hydra:member[0].menuItems');
-  }
+function formatPossibleGroups(possibleGroups: readonly string[], lang: Lang): string {
+  return [messages(lang).possibleGroups, ...groupRows(possibleGroups).map((r) => r.join(', '))].join('\n');
+}
 
-  const todayItem = menu.menuItems.find((item: LoeMenuItem) => item.name === 'Today');
-  const tomorrowItem = menu.menuItems.find((item: LoeMenuItem) => item.name === 'Tomorrow');
- 
-  const today = todayItem
-    ? {
-        item: todayItem,
-        itemText: textFromRawHtml(todayItem.rawMobileHtml || todayItem.rawHtml),
-        imageUrl: absoluteLoeMediaUrl(todayItem.imageUrl || todayItem.slug),
-      }
-    : undefined;
+type GroupStep = NonNullable<UserState['pendingStep']>;
 
-  const tomorrow = tomorrowItem
-    ? {
-        item: tomorrowItem,
-        itemText: textFromRawHtml(tomorrowItem.rawMobileHtml || tomorrowItem.rawHtml),
-        imageUrl: absoluteLoeMediaUrl(tomorrowItem.imageUrl || tomorrowItem.slug),
-      }
-    : undefined;
+// Inline group picker. The selection lives in the message's own buttons (✅ prefix) and the step in
+// the callback data, so a picker keeps working after a restart without any extra state.
+const GROUP_PICKER_RE = /^gp:(groups|groups_add|groups_remove):(save|\d+\.\d+)$/;
 
-  return { menuName: menu.name, sourceUrl, today, tomorrow };
+function groupPickerKeyboard(step: GroupStep, options: readonly string[], selected: readonly string[], lang: Lang) {
+  return Markup.inlineKeyboard([
+    ...groupRows(options).map((row) =>
+      row.map((g) => Markup.button.callback(selected.includes(g) ? `✅ ${g}` : g, `gp:${step}:${g}`)),
+    ),
+    [Markup.button.callback(messages(lang).pickerSave, `gp:${step}:save`)],
+  ]);
 }
 
-async function readStateFromDisk(): Promise<BotState> {
-  try {
-    const raw = await fs.readFile(STATE_FILE_PATH, 'utf8');
-    const parsed = JSON.parse(raw) as unknown;
-    if (
-      typeof parsed === 'object' &&
-      parsed !== null &&
-      'users' in parsed &&
-      typeof (parsed as any).users === 'object' &&
-      (parsed as any).users !== null
-    ) {
-      return normalizeStateShape(parsed as any);
-    }
-    return { users: {} };
-  } catch (err: any) {
-    if (err?.code === 'ENOENT') return { users: {} };
-    // If JSON is corrupt, don't crash the bot — start fresh.
-    return { users: {} };
-  }
-}
-
-function normalizeStateShape(input: any): BotState {
-  const rawUsers = input?.users && typeof input.users === 'object' ? (input.users as Record<string, any>) : {};
-  const users: Record<string, UserState> = {};
-
-  for (const [chatId, raw] of Object.entries(rawUsers)) {
-    const u = raw && typeof raw === 'object' ? (raw as any) : {};
-    const pending =
-      u.pendingStep === 'groups' || u.pendingStep === 'groups_add' || u.pendingStep === 'groups_remove'
-        ? (u.pendingStep as UserState['pendingStep'])
-        : undefined;
-    
-    users[chatId] = {
-      groups: Array.isArray(u.groups) ? u.groups.filter((x: any) => typeof x === 'string') : undefined,
-      pendingStep: pending,
-      watching: Boolean(u.watching),
-      lastLoeCheckedAt: typeof u.lastLoeCheckedAt === 'string' ? u.lastLoeCheckedAt : undefined,
-      lastLoeNotifiedAt: typeof u.lastLoeNotifiedAt === 'string' ? u.lastLoeNotifiedAt : undefined,
-      lastLoeWatchedText: typeof u.lastLoeWatchedText === 'string' ? u.lastLoeWatchedText : undefined,
-      lastLoeError: typeof u.lastLoeError === 'string' ? u.lastLoeError : undefined,
-
-      lastLoeTomorrowCheckedAt: typeof u.lastLoeTomorrowCheckedAt === 'string' ? u.lastLoeTomorrowCheckedAt : undefined,
-      lastLoeTomorrowNotifiedAt:
-        typeof u.lastLoeTomorrowNotifiedAt === 'string' ? u.lastLoeTomorrowNotifiedAt : undefined,
-      lastLoeTomorrowWatchedText:
-        typeof u.lastLoeTomorrowWatchedText === 'string' ? u.lastLoeTomorrowWatchedText : undefined,
-      lastLoeTomorrowStatus:
-        u.lastLoeTomorrowStatus === 'missing' || u.lastLoeTomorrowStatus === 'present'
-          ? (u.lastLoeTomorrowStatus as UserState['lastLoeTomorrowStatus'])
-          : undefined,
-      lastLoeTomorrowError: typeof u.lastLoeTomorrowError === 'string' ? u.lastLoeTomorrowError : undefined,
-    };
-  }
-
-  return { users };
-}
-
-async function writeStateToDisk(state: BotState): Promise<void> {
-  const normalized = normalizeStateShape(state as any);
-  const tmp = `${STATE_FILE_PATH}.tmp`;
-  await fs.writeFile(tmp, JSON.stringify(normalized, null, 2), 'utf8');
-  await fs.rename(tmp, STATE_FILE_PATH);
+function selectedInGroupPicker(markup: any): string[] {
+  const buttons: any[] = (markup?.inline_keyboard ?? []).flat();
+  return buttons
+    .filter((b) => typeof b.text === 'string' && b.text.startsWith('✅'))
+    .map((b) => String(b.callback_data).split(':')[2]);
 }
 
 const token = process.env.BOT_TOKEN;
@@ -322,6 +239,8 @@ if (!token) {
 const bot = new Telegraf(token);
 
 let state: BotState = { users: {} };
+let storage: StateStorage;
+let addressDataset: AddressDataset | undefined;
 let stateOp: Promise<unknown> = Promise.resolve();
 function runStateOp<T>(fn: () => Promise<T>): Promise<T> {
   const next = stateOp.then(fn, fn);
@@ -332,205 +251,440 @@ function runStateOp<T>(fn: () => Promise<T>): Promise<T> {
   return next;
 }
 
+async function saveState(s: BotState): Promise<void> {
+  await storage.save(s);
+}
+
+function chatProvider(chatId: string): ScheduleProvider {
+  return providerFor(state.users[chatId]?.providerId);
+}
+
 async function ensureUser(chatId: string): Promise<UserState> {
   if (!state.users[chatId]) state.users[chatId] = { watching: false };
   return state.users[chatId];
 }
 
-async function checkOneChat(chatId: string, user: UserState, forceCheck: boolean = false): Promise<void> {
+// Replies go out in the chat's language; before the chat has one, in the sender's Telegram language.
+function ctxLang(ctx: any): Lang {
+  return state.users[String(ctx.chat?.id)]?.lang ?? langFromTelegram(ctx.from?.language_code);
+}
+
+// Chats remember the language Telegram reported the first time, so notifications use it too; /lang overrides it.
+bot.use(async (ctx, next) => {
+  await next();
+  const chatId = ctx.chat ? String(ctx.chat.id) : undefined;
+  const code = ctx.from?.language_code;
+  if (!chatId || !code || !state.users[chatId] || state.users[chatId].lang) return;
+  await runStateOp(async () => {
+    const user = state.users[chatId];
+    if (!user || user.lang) return;
+    user.lang = langFromTelegram(code);
+    await saveState(state);
+  });
+});
+
+// Latest snapshot per provider id
+const snapshots: Record<string, ScheduleSnapshot> = {};
+// What the polling cycle last evaluated chats against, per provider
+const lastEvaluated: Record<string, EvaluatedSnapshot> = {};
+// When each provider's tomorrow schedule last appeared, for the polling policy
+const tomorrowPublishedAt: Record<string, number> = {};
+// Outcome of the latest global polling cycle per provider, for /status
+const lastCycleResults: Record<string, { at: number; ok: boolean; error?: string }> = {};
+let nextScheduledCheckAt: number | undefined;
+
+// Shared by every provider and by the picture downloads
+const sourceFetch = withRetries(fetch, {
+  timeoutMs: SOURCE_FETCH_TIMEOUT_MS,
+  retries: SOURCE_FETCH_RETRIES,
+  backoffMs: SOURCE_FETCH_BACKOFF_MS,
+});
+const sourceBreakers: Record<string, CircuitBreaker> = {};
+// Sources failing right now: since the first failed refresh, with the last real error
+const sourceOutages: Record<string, { since: number; error: string; alerted: boolean }> = {};
+
+function sourceBreaker(provider: ScheduleProvider): CircuitBreaker {
+  if (!sourceBreakers[provider.id]) {
+    sourceBreakers[provider.id] = createCircuitBreaker(provider.id, {
+      failureThreshold: SOURCE_CIRCUIT_FAILURES,
+      cooldownMs: SOURCE_CIRCUIT_COOLDOWN_MS,
+      maxCooldownMs: SOURCE_CIRCUIT_MAX_COOLDOWN_MS,
+    });
+  }
+  return sourceBreakers[provider.id];
+}
+
+async function refreshSnapshot(provider: ScheduleProvider): Promise<ScheduleSnapshot> {
+  const prev = snapshots[provider.id];
+  let next: ScheduleSnapshot;
+  try {
+    next = await sourceBreaker(provider).run(() => provider.fetchSnapshot(prev, sourceFetch));
+  } catch (err) {
+    noteSourceFailure(provider, err);
+    throw err;
+  }
+  noteSourceRecovery(provider);
+  snapshots[provider.id] = next;
+  if (prev && !prev.tomorrow && next.tomorrow) tomorrowPublishedAt[provider.id] = next.fetchedAt;
+  if (prev?.contentHash !== next.contentHash) await archiveSnapshot(next);
+  return next;
+}
+
+function noteSourceFailure(provider: ScheduleProvider, err: any): void {
+  const category = fetchErrorCategory(err) ?? 'unknown';
+  const message = String(err?.message ?? err);
+  console.error(`${provider.id}: fetch failed (${category}):`, message);
+
+  const now = Date.now();
+  const outage = sourceOutages[provider.id] ?? { since: now, error: message, alerted: false };
+  sourceOutages[provider.id] = outage;
+  // While the circuit is open the last real error says more than "requests paused"
+  if (category !== 'circuit_open') outage.error = message;
+  if (outage.alerted || now - outage.since < SOURCE_OUTAGE_ALERT_AFTER_MS) return;
+  outage.alerted = true;
+  console.warn(`${provider.id}: failing since ${new Date(outage.since).toISOString()}, sending outage alerts`);
+  alertSourceWatchers(provider, (lang) =>
+    messages(lang).sourceOutage(provider.name, formatDuration(Math.round((now - outage.since) / 60000), lang), outage.error),
+  );
+}
+
+function noteSourceRecovery(provider: ScheduleProvider): void {
+  const outage = sourceOutages[provider.id];
+  if (!outage) return;
+  delete sourceOutages[provider.id];
+  const downMs = Date.now() - outage.since;
+  console.log(`${provider.id}: source recovered after ${formatInterval(downMs, 'en')}`);
+  if (!outage.alerted) return;
+  alertSourceWatchers(provider, (lang) =>
+    messages(lang).sourceRecovered(provider.name, formatDuration(Math.round(downMs / 60000), lang)),
+  );
+}
+
+// Alerts skip the held-messages queue: an outage notice is stale by the time quiet hours end,
+// so chats in quiet hours get it silently instead.
+function alertSourceWatchers(provider: ScheduleProvider, text: (lang: Lang) => string): void {
+  if (SOURCE_OUTAGE_ALERTS === 'off') return;
+  const recipients = new Set(ADMIN_CHAT_IDS);
+  if (SOURCE_OUTAGE_ALERTS === 'watching') {
+    for (const [chatId, user] of Object.entries(state.users)) {
+      if (user.watching && providerFor(user.providerId) === provider) recipients.add(chatId);
+    }
+  }
+  const now = Date.now();
+  for (const chatId of recipients) {
+    const user = state.users[chatId];
+    const quiet = Boolean(user?.quietHours && isQuietAt(user.quietHours, now));
+    deliverText(chatId, text(user?.lang ?? DEFAULT_LANG), { disable_notification: quiet });
+  }
+}
+
+// Keep every distinct published version for /history; an archive failure must not block notifications.
+async function archiveSnapshot(snapshot: ScheduleSnapshot): Promise<void> {
+  const today = zonedDateString(snapshot.fetchedAt);
+  const tomorrow = shiftDate(today, 1);
+  const items: Array<[ScheduleDayItem | undefined, string]> = [
+    [snapshot.today, today],
+    [snapshot.tomorrow, tomorrow],
+  ];
+  for (const [item, fallbackDate] of items) {
+    if (!item || Object.keys(item.schedule.groups).length === 0) continue;
+    try {
+      const rev = buildScheduleRevision(snapshot.providerId, item.schedule, fallbackDate, snapshot.fetchedAt);
+      if (await storage.addScheduleRevision(rev)) {
+        console.log(`${snapshot.providerId}: archived schedule revision for ${rev.date}`);
+      }
+    } catch (err: any) {
+      console.error(`${snapshot.providerId}: failed to archive schedule revision:`, err?.message ?? err);
+    }
+  }
+}
+
+async function getRecentSnapshot(provider: ScheduleProvider): Promise<ScheduleSnapshot> {
+  const cached = snapshots[provider.id];
+  if (cached && Date.now() - cached.fetchedAt <= MANUAL_CHECK_SNAPSHOT_MAX_AGE_MS) return cached;
+  return refreshSnapshot(provider);
+}
+
+// A schedule message's picture, with the label used when it has to go as a plain link.
+type SchedulePicture = { item: ScheduleDayItem; linkLabel: string };
+
+// Telegram captions are limited to 1024 characters; longer texts follow the photo as a message.
+const TELEGRAM_CAPTION_LIMIT = 1024;
+// Telegram file_id per image hash: a picture is uploaded once and then reused for every chat.
+const photoFileIds: Record<string, string> = {};
+// Uploads still waiting for their file_id; other sends of the same picture wait for them.
+const photoUploads: Record<string, Promise<void>> = {};
+
+const sendQueue = createSendQueue();
+
+// Automatic messages go through the send queue (rate limits, retry_after); command replies use ctx.reply.
+function telegramSend<T>(chatId: string, send: () => Promise<T>): Promise<T> {
+  return sendQueue.enqueue(chatId, send);
+}
+
+// Not awaited by callers inside runStateOp: waiting out a rate limit must not hold up the polling cycle,
+// and a failed delivery is recorded on the chat instead of failing the schedule check.
+function deliver(chatId: string, send: () => Promise<unknown>): void {
+  send()
+    .then(
+      () => (state.users[chatId]?.lastDeliveryError ? runStateOp(() => clearDeliveryError(chatId)) : undefined),
+      (err) => runStateOp(() => recordDeliveryFailure(chatId, err)),
+    )
+    .catch((err: any) => console.error(`Failed to record delivery to ${chatId}:`, err?.message ?? err));
+}
+
+function deliverText(chatId: string, text: string, extra: { disable_notification?: boolean } = {}): void {
+  deliver(chatId, () => telegramSend(chatId, () => bot.telegram.sendMessage(chatId, text, extra)));
+}
+
+async function recordDeliveryFailure(chatId: string, err: unknown): Promise<void> {
+  const description = describeDeliveryError(err);
+  console.error(`Failed to deliver a message to ${chatId}:`, description);
+  const user = state.users[chatId];
+  if (!user) return;
+  user.lastDeliveryError = description;
+  user.lastDeliveryErrorAt = new Date().toISOString();
+  if (isChatUnreachable(err)) {
+    // Blocked or deleted: stop everything that would keep trying. Picking groups again turns notifications back on.
+    user.watching = false;
+    user.digestAt = undefined;
+    user.heldMessages = undefined;
+    console.log(`${chatId}: chat is unreachable, notifications turned off`);
+  }
+  await saveState(state);
+}
+
+async function clearDeliveryError(chatId: string): Promise<void> {
+  const user = state.users[chatId];
+  if (!user?.lastDeliveryError) return;
+  user.lastDeliveryError = undefined;
+  user.lastDeliveryErrorAt = undefined;
+  await saveState(state);
+}
+
+function withPictureLink(text: string, picture: SchedulePicture | undefined): string {
+  return picture?.item.imageUrl ? `${text}\n\n${picture.linkLabel}: ${picture.item.imageUrl}` : text;
+}
+
+async function sendScheduleMessage(
+  chatId: string,
+  text: string,
+  picture: SchedulePicture | undefined,
+  extra: { disable_notification?: boolean } = {},
+): Promise<void> {
+  const image = picture?.item.image;
+  if (!image) {
+    await telegramSend(chatId, () => bot.telegram.sendMessage(chatId, withPictureLink(text, picture), extra));
+    return;
+  }
+  const caption = text.length <= TELEGRAM_CAPTION_LIMIT ? text : undefined;
+  try {
+    // The file_id is looked up when the queue gets to this chat, not when the message is queued:
+    // the chats before it in the same cycle upload the picture.
+    await telegramSend(chatId, async () => {
+      await photoUploads[image.hash];
+      const fileId = photoFileIds[image.hash];
+      if (fileId) return bot.telegram.sendPhoto(chatId, fileId, { ...extra, caption });
+      const upload = bot.telegram.sendPhoto(chatId, { source: image.bytes }, { ...extra, caption });
+      const stored = upload
+        .then(
+          (sent) => {
+            photoFileIds[image.hash] = sent.photo[sent.photo.length - 1].file_id;
+          },
+          () => undefined,
+        )
+        .then(() => {
+          if (photoUploads[image.hash] === stored) delete photoUploads[image.hash];
+        });
+      photoUploads[image.hash] = stored;
+      return upload;
+    });
+  } catch (err: any) {
+    // 400 means Telegram rejected the picture itself (or a stale file_id); anything else,
+    // e.g. a blocked chat, is the caller's problem as with plain messages.
+    if (err?.response?.error_code !== 400) throw err;
+    console.error(`Failed to send schedule photo to ${chatId}:`, err?.response?.description ?? err?.message);
+    delete photoFileIds[image.hash];
+    await telegramSend(chatId, () => bot.telegram.sendMessage(chatId, withPictureLink(text, picture), extra));
+    return;
+  }
+  if (!caption) await telegramSend(chatId, () => bot.telegram.sendMessage(chatId, text, extra));
+}
+
+// Automatic notifications go through here so quiet hours apply; replies to commands don't.
+async function notifyChat(
+  chatId: string,
+  user: UserState,
+  text: string,
+  urgent: boolean,
+  picture?: SchedulePicture,
+): Promise<void> {
+  const how = quietDelivery(user.quietHours, urgent, Date.now());
+  if (how === 'send') {
+    deliver(chatId, () => sendScheduleMessage(chatId, text, picture));
+    return;
+  }
+  if (how === 'silent') {
+    deliver(chatId, () => sendScheduleMessage(chatId, text, picture, { disable_notification: true }));
+    return;
+  }
+  // Held messages are collapsed into one text later, so the picture stays a link
+  user.heldMessages = [...(user.heldMessages ?? []), { at: new Date().toISOString(), text: withPictureLink(text, picture) }];
+  await saveState(state);
+}
+
+async function flushHeldMessages(): Promise<void> {
+  const now = Date.now();
+  for (const [chatId, user] of Object.entries(state.users)) {
+    if (!user.heldMessages?.length) continue;
+    if (user.quietHours && isQuietAt(user.quietHours, now)) continue;
+    const text = collapseHeldMessages(user.heldMessages, user.lang ?? DEFAULT_LANG);
+    // Clear first, like reminders: a failing chat must not get the same batch every minute.
+    user.heldMessages = undefined;
+    await saveState(state);
+    deliverText(chatId, text);
+  }
+}
+
+async function checkOneChat(
+  chatId: string,
+  user: UserState,
+  loadSnapshot: () => Promise<ScheduleSnapshot> = () => getRecentSnapshot(providerFor(user.providerId)),
+  forceCheck: boolean = false,
+): Promise<void> {
   if (!user.watching && !forceCheck) return;
+  const lang = user.lang ?? DEFAULT_LANG;
+  const m = messages(lang);
   if (!user.groups || user.groups.length === 0) {
-    user.lastLoeError = 'Не задано групи. Використайте /groups та введіть, наприклад: 1.1, 3.2';
+    user.lastLoeError = m.noGroupsError;
     user.lastLoeCheckedAt = new Date().toISOString();
-    await writeStateToDisk(state);
-    if (forceCheck) {
-      await bot.telegram.sendMessage(chatId, user.lastLoeError);
-    }
+    await saveState(state);
+    if (forceCheck) deliverText(chatId, user.lastLoeError);
     return;
   }
   
   try {
-    const { today, tomorrow } = await fetchLoePhotoGraficMenuItems();
+    const notices = evaluateChatSnapshot(user, await loadSnapshot(), Date.now(), forceCheck);
+    await saveState(state);
+    for (const notice of notices) await notifyChat(chatId, user, notice.text, notice.urgent, notice.picture);
+  } catch (err: any) {
+    user.lastLoeCheckedAt = new Date().toISOString();
+    user.lastLoeError = err?.message ? String(err.message) : m.unknownCheckError;
+    await saveState(state);
+    if (forceCheck) deliverText(chatId, m.errorMessage(user.lastLoeError));
+  }
+}
 
-    if(today && today.itemText){
-      // ---- TODAY ----
-      const groupMap = parseGroupSchedulesFromText(today.itemText);
-      let selectedLines = user.groups
-        .map((g) => groupMap[g] ?? `Група ${g}. (Не знайдено в оновленні)`);
-  
-      // Keep the top 2 lines if present (usually "Графік ...", "Інформація станом ...")
-      const headerLines = normalizeMultilineText(today.itemText)
-        .split('\n')
-        .slice(0, 2)
-        .filter((l) => l.length > 0);
-  
-      const watchedText = [...headerLines, '', ...selectedLines].join('\n').trim();
-      const watchedGroupsText = selectedLines.join('\n').trim();
-      const prev = user.lastLoeWatchedText ? extractGroupLinesOnly(user.lastLoeWatchedText) : undefined;
-      user.lastLoeCheckedAt = new Date().toISOString();
-      user.lastLoeError = undefined;
-      const isNotifiedYesterday = user.lastLoeNotifiedAt ? new Date(user.lastLoeNotifiedAt).getDate() !== new Date().getDate() : false;
-  
-      const formattedSelectedLines = selectedLines
-          .map((line) => line + '\n')
-          .map((line) => line.replace(/,/g, '\n'))
-          .map((line) => line.replace('Електроенергії немає', '\nЕлектроенергії немає:\n'))
-          .map((line) => line.replace(/ з /g, 'з '));
-      const watchedTextFormatted = [...headerLines, '', ...formattedSelectedLines].join('\n').trim();
-  
-      if (!prev) {
-        // Baseline snapshot for today (do not spam on first seen unless forceCheck)
-        user.lastLoeWatchedText = watchedText;
-  
-        await writeStateToDisk(state);
-        if (forceCheck) {
-          user.lastLoeNotifiedAt = new Date().toISOString();
-          await writeStateToDisk(state);
-          await bot.telegram.sendMessage(
-            chatId,
-            [
-              '🔥 Оновлення перевірено!',
-              ' ',
-              watchedTextFormatted || '(Не вдалося прочитати текст)',
-              '',
-              today.imageUrl ? `\nГрафік відключень: ${today.imageUrl}` : '',
-            ]
-              .filter(Boolean)
-              .join('\n'),
-          );
-        }
-      } else if (prev !== watchedGroupsText || isNotifiedYesterday || forceCheck) {
-        user.lastLoeWatchedText = watchedText;
-        user.lastLoeNotifiedAt = new Date().toISOString();
-  
-        await writeStateToDisk(state);
-        
-        await bot.telegram.sendMessage(
-          chatId,
-          [
-            forceCheck ? '🔥 Оновлення перевірено!' : isNotifiedYesterday ? '🔥 Графік відключень на сьогодні!' : '🔥 Графік відключень на сьогодні змінився!',
-            ' ',
-            watchedTextFormatted || '(Не вдалося прочитати текст)',
-            '',
-            today.imageUrl ? `\nГрафік відключень на сьогодні: ${today.imageUrl}` : '',
-          ]
-            .filter(Boolean)
-            .join('\n'),
-        );
-      }
-    }
+async function checkAllWatchingChats(): Promise<void> {
+  const chatsByProvider = new Map<ScheduleProvider, [string, UserState][]>();
+  for (const [chatId, user] of Object.entries(state.users)) {
+    if (!user.watching) continue;
+    const provider = providerFor(user.providerId);
+    chatsByProvider.set(provider, [...(chatsByProvider.get(provider) ?? []), [chatId, user]]);
+  }
 
-    if(tomorrow && tomorrow.itemText){
-      // ---- TOMORROW ----
-      user.lastLoeTomorrowCheckedAt = new Date().toISOString();
-      user.lastLoeTomorrowError = undefined;
-  
-      const tomorrowGroupMap = parseGroupSchedulesFromText(tomorrow.itemText);
-      const tomorrowSelectedLines = user.groups.map(
-        (g) => tomorrowGroupMap[g] ?? `Група ${g}. (Не знайдено в графіку на завтра)`,
-      );
-      const hasAnyTomorrowDataForSelectedGroups = user.groups.some((g) => Boolean(tomorrowGroupMap[g]));
-      const tomorrowHeaderLines = normalizeMultilineText(tomorrow.itemText)
-        .split('\n')
-        .slice(0, 2)
-        .filter((l) => l.length > 0);
-      const tomorrowHeaderLinesPrev = normalizeMultilineText(user.lastLoeTomorrowWatchedText ?? '').split('\n').slice(0, 2).filter((l) => l.length > 0);
-      const tomorrowHeaderLinesCurrent = normalizeMultilineText(tomorrow.itemText).split('\n').slice(0, 2).filter((l) => l.length > 0);
-      const tomorrowWatchedText = [...tomorrowHeaderLines, '', ...tomorrowSelectedLines].join('\n').trim();
-      const tomorrowWatchedGroupsText = tomorrowSelectedLines.join('\n').trim();
-      const tomorrowPrevGroupsOnly = user.lastLoeTomorrowWatchedText
-        ? extractGroupLinesOnly(user.lastLoeTomorrowWatchedText)
-        : undefined;
-  
-      const appeared = user.lastLoeTomorrowStatus !== 'present';
-      user.lastLoeTomorrowStatus = 'present';
-      
-      const formattedTomorrowSelectedLines = tomorrowSelectedLines
-          .map((line) => line + '\n')
-          .map((line) => line.replace(/,/g, '\n'))
-          .map((line) => line.replace('Електроенергії немає', '\nЕлектроенергії немає:\n'))
-          .map((line) => line.replace(/ з /g, 'з '));
-      const tomorrowWatchedTextFormatted = [...tomorrowHeaderLines, '', ...formattedTomorrowSelectedLines].join('\n').trim();
-  
-      // If LOE published "Tomorrow" but there is no data for the user's selected groups,
-      // do not send an "empty" notification like "(Не знайдено в графіку на завтра)".
-      // Still store a snapshot so we can notify later if data for the groups appears.
-      if (!hasAnyTomorrowDataForSelectedGroups) {
-        user.lastLoeTomorrowWatchedText = tomorrowWatchedText;
-        await writeStateToDisk(state);
-        return;
-      }
-  
-      if (appeared || forceCheck) {
-        user.lastLoeTomorrowWatchedText = tomorrowWatchedText;
-        user.lastLoeTomorrowNotifiedAt = new Date().toISOString();
-        await writeStateToDisk(state);
-        await bot.telegram.sendMessage(
-          chatId,
-          [
-            '🗓️ Зʼявився графік відключень на завтра!',
-            ' ',
-            tomorrowWatchedTextFormatted || '(Не вдалося прочитати текст)',
-            '',
-            tomorrow.imageUrl ? `\nГрафік (завтра): ${tomorrow.imageUrl}` : '',
-          ]
-            .filter(Boolean)
-            .join('\n'),
-        );
-        return;
-      }
-  
-      if (tomorrowPrevGroupsOnly !== tomorrowWatchedGroupsText && tomorrowHeaderLinesPrev !== tomorrowHeaderLinesCurrent) {
-        user.lastLoeTomorrowWatchedText = tomorrowWatchedText;
-        user.lastLoeTomorrowNotifiedAt = new Date().toISOString();
-        await writeStateToDisk(state);
-        await bot.telegram.sendMessage(
-          chatId,
-          [
-            '🗓️ Графік відключень на завтра змінився!',
-            ' ',
-            tomorrowWatchedTextFormatted || '(Не вдалося прочитати текст)',
-            '',
-            tomorrow.imageUrl ? `\nГрафік (завтра): ${tomorrow.imageUrl}` : '',
-          ]
-            .filter(Boolean)
-            .join('\n'),
-        );
-        return;
+  for (const [provider, chats] of chatsByProvider) {
+    let snapshot: ScheduleSnapshot;
+    try {
+      snapshot = await refreshSnapshot(provider);
+      lastCycleResults[provider.id] = { at: Date.now(), ok: true };
+    } catch (err: any) {
+      const message = err?.message ? String(err.message) : undefined;
+      lastCycleResults[provider.id] = { at: Date.now(), ok: false, error: message };
+      const now = new Date().toISOString();
+      for (const [, user] of chats) {
+        user.lastLoeCheckedAt = now;
+        user.lastLoeError = message ?? messages(user.lang).unknownCheckError;
       }
+      await saveState(state);
+      continue;
     }
 
-    if (!tomorrow) {
-      // Tomorrow is not published yet
-      user.lastLoeTomorrowStatus = 'missing';
-      await writeStateToDisk(state);
-      return;
+    const key = evaluationKey(snapshot, Date.now());
+    if (sameEvaluation(lastEvaluated[provider.id], key)) {
+      console.log(`${provider.id}: schedule unchanged, skipping per-chat checks`);
+      continue;
     }
 
-    await writeStateToDisk(state);
-  } catch (err: any) {
-    user.lastLoeCheckedAt = new Date().toISOString();
-    user.lastLoeError = err?.message ? String(err.message) : 'Невідома помилка під час перевірки графіка';
-    await writeStateToDisk(state);
-    if (forceCheck) {
-      await bot.telegram.sendMessage(chatId, `❌ Помилка: ${user.lastLoeError}`);
+    for (const [chatId, user] of chats) {
+      await checkOneChat(chatId, user, async () => snapshot);
     }
+    lastEvaluated[provider.id] = key;
   }
 }
 
-async function checkAllWatchingChats(): Promise<void> {
-  const entries = Object.entries(state.users);
-  for (const [chatId, user] of entries) {
-    await checkOneChat(chatId, user);
+async function sendDueReminders(): Promise<void> {
+  const now = Date.now();
+  let changed = false;
+  for (const [chatId, user] of Object.entries(state.users)) {
+    if (!user.watching || !user.groups?.length || !user.remindLeadMinutes?.length) continue;
+    const schedules = [user.lastLoeSchedule, user.lastLoeTomorrowSchedule].filter(
+      (s): s is DaySchedule => Boolean(s),
+    );
+    const sent = new Set(user.sentReminderKeys ?? []);
+    const due = collectDueReminders(
+      schedules,
+      user.groups,
+      user.remindLeadMinutes,
+      now,
+      REMINDER_GRACE_MS,
+      user.lang ?? DEFAULT_LANG,
+    ).filter((r) => !sent.has(r.key));
+    if (due.length === 0) continue;
+
+    // Mark as sent first: a failed send must not turn into a reminder storm on every tick.
+    user.sentReminderKeys = pruneReminderKeys([...sent, ...due.map((r) => r.key)], now);
+    changed = true;
+    // A reminder is useless once deferred, so during quiet hours it is always sent silently.
+    const silent = user.quietHours ? isQuietAt(user.quietHours, now) : false;
+    deliverText(chatId, due.map((r) => r.text).join('\n'), { disable_notification: silent });
+  }
+  if (changed) await saveState(state);
+}
+
+// Today's schedule for the digest: LOE's "Today" item may still be yesterday's early in the
+// morning, so whichever known snapshot is dated `date` is used. Built from the snapshot the polling
+// cycle keeps, never fetched: digests are sent under the state lock.
+function buildDigest(user: UserState, date: string): string {
+  const groups = user.groups ?? [];
+  const snapshot = snapshots[providerFor(user.providerId).id];
+  const known = [
+    snapshot?.today?.schedule,
+    snapshot?.tomorrow?.schedule,
+    user.lastLoeSchedule,
+    user.lastLoeTomorrowSchedule,
+  ].filter((s): s is DaySchedule => Boolean(s));
+  const today = known.find((s) => s.date === date);
+  const nextDay = known.find((s) => s.date === shiftDate(date, 1));
+  const tomorrowPublished = Boolean(nextDay && groups.some((g) => nextDay.groups[g]));
+  return formatDigest(formatHistoryDate(date), today, groups, tomorrowPublished, user.lang ?? DEFAULT_LANG);
+}
+
+async function sendDueDigests(): Promise<void> {
+  const now = Date.now();
+  const today = zonedDateString(now);
+  for (const [chatId, user] of Object.entries(state.users)) {
+    if (user.digestAt === undefined || !user.groups?.length || user.lastDigestDate === today) continue;
+    const dueAt = zonedDateTimeToEpochMs(today, user.digestAt);
+    if (now < dueAt || now - dueAt > DIGEST_CATCH_UP_MS) continue;
+
+    // Persist before sending so a restart right after can't send the same digest twice.
+    user.lastDigestDate = today;
+    await saveState(state);
+    try {
+      deliverText(chatId, buildDigest(user, today));
+    } catch (err: any) {
+      console.error(`Failed to build digest for ${chatId}:`, err?.message ?? err);
+    }
   }
 }
 
 async function checkLikeCheckCommand(ctx: any): Promise<void> {
   const chatId = String(ctx.chat.id);
-  await ctx.reply('Перевіряю…');
+  await ctx.reply(messages(ctxLang(ctx)).checking);
   await runStateOp(async () => {
     const user = await ensureUser(chatId);
-    await checkOneChat(chatId, user, true);
+    await checkOneChat(chatId, user, undefined, true);
   });
 }
 
@@ -539,12 +693,10 @@ async function watchLikeWatchCommand(ctx: any): Promise<void> {
   await runStateOp(async () => {
     const user = await ensureUser(chatId);
     user.watching = true;
-    await writeStateToDisk(state);
+    await saveState(state);
   });
 
-  await ctx.reply(
-    'Перевірка відключень електроенергії увімкнена ✅\nЯ буду сповіщати вас, якщо графік відключень електроенергії зміниться.',
-  );
+  await ctx.reply(messages(ctxLang(ctx)).watchEnabled);
 
   // Do an immediate baseline check (no notification on first snapshot)
   await runStateOp(async () => {
@@ -554,44 +706,127 @@ async function watchLikeWatchCommand(ctx: any): Promise<void> {
 }
 
 async function promptForNextStep(ctx: any, step: UserState['pendingStep']): Promise<void> {
+  const chatId = String(ctx.chat.id);
+  const possibleGroups = chatProvider(chatId).groups;
+  const currentGroups = state.users[chatId]?.groups ?? [];
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
   if (step === 'groups') {
     await ctx.reply(
-      [
-        'Які групи відключень вас цікавлять?',
-        'Можна вказати одну або декілька груп в одному повідомленні (через ;).',
-        'Формат групи: 1.1 або 1,1',
-        '',
-        formatPossibleGroups(),
-        '',
-        'Приклад:',
-        '1,1; 3.2; 4,2',
-      ].join('\n'),
+      [m.groupsQuestion, m.groupsPickHint, '', m.typedGroupsHint].join('\n'),
+      groupPickerKeyboard(step, possibleGroups, currentGroups.filter((g) => possibleGroups.includes(g)), lang),
     );
     return;
   }
   if (step === 'groups_add') {
+    const options = possibleGroups.filter((g) => !currentGroups.includes(g));
+    if (options.length === 0) {
+      await ctx.reply(m.allGroupsAdded(currentGroups));
+      return;
+    }
     await ctx.reply(
-      ['Які групи додати?', 'Формат: 1.1 або 1,1', '', formatPossibleGroups(), '', 'Приклад: 1,1; 3.2'].join('\n'),
+      [m.groupsAddQuestion, m.groupsPickShortHint, '', m.typedGroupsHint].join('\n'),
+      groupPickerKeyboard(step, options, [], lang),
     );
     return;
   }
   if (step === 'groups_remove') {
-    const currentGroups = state.users[String(ctx.chat.id)]?.groups ?? [];
+    if (currentGroups.length === 0) {
+      await ctx.reply(m.groupsEmptyUseAdd);
+      return;
+    }
     await ctx.reply(
-      ['Які групи видалити?', '', 'Наразі вибрані групи: ' + currentGroups.join(', '), '', 'Приклад: 1,1; 3.2'].join('\n'),
+      [m.groupsRemoveQuestion, m.groupsPickShortHint, '', m.typedGroupsHint].join('\n'),
+      groupPickerKeyboard(step, currentGroups, [], lang),
     );
     return;
   }
 }
 
+// Shared by the inline picker and the typed fallback: `groups` replaces the list, the other steps add or remove.
+async function applyGroupSelection(ctx: any, step: GroupStep, selected: string[]): Promise<void> {
+  const chatId = String(ctx.chat.id);
+  const m = messages(ctxLang(ctx));
+  if (step === 'groups') {
+    await runStateOp(async () => {
+      const u = await ensureUser(chatId);
+      u.groups = selected;
+      u.pendingStep = undefined;
+      u.watching = true; // enable by default once groups are set
+      u.lastLoeSchedule = undefined; // reset snapshot on change
+      u.lastLoeError = undefined;
+      await saveState(state);
+    });
+
+    await ctx.reply(m.groupsSaved(selected));
+
+    // Baseline + immediate forced check to show current info
+    await runStateOp(async () => {
+      const u = await ensureUser(chatId);
+      await checkOneChat(chatId, u, undefined, true);
+    });
+    return;
+  }
+
+  await runStateOp(async () => {
+    const u = await ensureUser(chatId);
+    const current = u.groups ?? [];
+    u.groups =
+      step === 'groups_add'
+        ? [...current, ...selected].filter((g, idx, arr) => arr.indexOf(g) === idx)
+        : current.filter((g) => !selected.includes(g));
+    u.pendingStep = undefined;
+    u.lastLoeSchedule = undefined;
+    u.lastLoeError = undefined;
+    await saveState(state);
+  });
+
+  const groups = state.users[chatId]?.groups ?? [];
+  if (step === 'groups_add') await ctx.reply(m.groupsAdded(groups));
+  else await ctx.reply(groups.length ? m.groupsRemoved(groups) : m.groupsRemovedEmpty);
+  await checkLikeCheckCommand(ctx);
+}
+
+bot.action(GROUP_PICKER_RE, async (ctx) => {
+  const step = ctx.match[1] as GroupStep;
+  const value = ctx.match[2];
+  const message: any = ctx.callbackQuery.message;
+  const selected = selectedInGroupPicker(message?.reply_markup);
+
+  if (value !== 'save') {
+    const next = selected.includes(value) ? selected.filter((g) => g !== value) : [...selected, value];
+    const options: string[] = (message?.reply_markup?.inline_keyboard ?? [])
+      .flat()
+      .map((b: any) => String(b.callback_data).split(':')[2])
+      .filter((g: string) => g !== 'save');
+    await ctx.answerCbQuery();
+    await ctx
+      .editMessageReplyMarkup(groupPickerKeyboard(step, options, next, ctxLang(ctx)).reply_markup)
+      .catch(() => undefined);
+    return;
+  }
+
+  // The region may have changed since the picker was sent
+  const chatId = String(ctx.chat?.id);
+  const valid = selected.filter((g) => chatProvider(chatId).groups.includes(g));
+  const m = messages(ctxLang(ctx));
+  if (valid.length === 0) {
+    await ctx.answerCbQuery(m.pickerPickOne, { show_alert: true });
+    return;
+  }
+  await ctx.answerCbQuery(m.pickerSaved);
+  await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+  await applyGroupSelection(ctx, step, valid);
+});
+
 bot.start(async (ctx) => {
   const chatId = String(ctx.chat.id);
   await runStateOp(async () => {
     const user = await ensureUser(chatId);
     user.pendingStep = 'groups';
-    await writeStateToDisk(state);
+    await saveState(state);
   });
-  await ctx.reply('Привіт!\nЯ чат-бот який вміє відстежувати графік погодинних відключень для вибраних груп та сповіщати, коли він зміниться.\nДодай групи відключень електроенергії та я буду сповіщати тебе, коли вони зміняться.');
+  await ctx.reply(messages(ctxLang(ctx)).welcome);
   await promptForNextStep(ctx, 'groups');
   await checkLikeCheckCommand(ctx);
 });
@@ -600,11 +835,12 @@ bot.command('groups_list', async (ctx) => {
   const chatId = String(ctx.chat.id);
   const user = state.users[chatId];
   const groups = user?.groups ?? [];
+  const m = messages(ctxLang(ctx));
   if (groups.length === 0) {
-    await ctx.reply('Групи не задані. Використайте /groups (напр: 1.1, 3.2)');
+    await ctx.reply(m.groupsNotSet);
     return;
   }
-  await ctx.reply(`Ваші групи: ${groups.join(', ')}`);
+  await ctx.reply(m.yourGroups(groups));
 });
 
 async function addGroupCommand(ctx: any): Promise<void> {
@@ -616,16 +852,18 @@ async function addGroupCommand(ctx: any): Promise<void> {
     await runStateOp(async () => {
       const user = await ensureUser(chatId);
       user.pendingStep = 'groups_add';
-      await writeStateToDisk(state);
+      await saveState(state);
     });
     await promptForNextStep(ctx, 'groups_add');
     return;
   }
 
-  const toAdd = parseGroupsFromUserInput(tail);
+  const toAdd = parseGroupsFromUserInput(tail, chatProvider(chatId).groups);
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
   if (toAdd.length === 0) {
     await ctx.reply(
-      ['Не схоже на список груп.', '', formatPossibleGroups(), '', 'Приклад: /add_group 1,1; 3.2'].join('\n'),
+      [m.notAGroupList, '', formatPossibleGroups(chatProvider(chatId).groups, lang), '', m.example('/add_group 1,1; 3.2')].join('\n'),
     );
     return;
   }
@@ -635,13 +873,13 @@ async function addGroupCommand(ctx: any): Promise<void> {
     const current = user.groups ?? [];
     user.groups = [...current, ...toAdd].filter((g, idx, arr) => arr.indexOf(g) === idx);
     user.pendingStep = undefined;
-    user.lastLoeWatchedText = undefined;
+    user.lastLoeSchedule = undefined;
     user.lastLoeError = undefined;
-    await writeStateToDisk(state);
+    await saveState(state);
   });
 
   const groups = state.users[chatId]?.groups ?? [];
-  await ctx.reply(`Додано ✅\nВи відстежуєте такі групи відключень електроенергії: ${groups.join(', ')}`);
+  await ctx.reply(m.groupsAddedWatching(groups));
   await checkLikeCheckCommand(ctx);
 }
 
@@ -658,16 +896,18 @@ async function removeGroupCommand(ctx: any): Promise<void> {
     await runStateOp(async () => {
       const user = await ensureUser(chatId);
       user.pendingStep = 'groups_remove';
-      await writeStateToDisk(state);
+      await saveState(state);
     });
     await promptForNextStep(ctx, 'groups_remove');
     return;
   }
 
-  const toRemove = parseGroupsFromUserInput(tail);
+  const toRemove = parseGroupsFromUserInput(tail, chatProvider(chatId).groups);
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
   if (toRemove.length === 0) {
     await ctx.reply(
-      ['Не схоже на список груп.', '', formatPossibleGroups(), '', 'Приклад: /remove_group 1,1; 3.2'].join('\n'),
+      [m.notAGroupList, '', formatPossibleGroups(chatProvider(chatId).groups, lang), '', m.example('/remove_group 1,1; 3.2')].join('\n'),
     );
     return;
   }
@@ -677,13 +917,13 @@ async function removeGroupCommand(ctx: any): Promise<void> {
     const current = user.groups ?? [];
     user.groups = current.filter((g) => !toRemove.includes(g));
     user.pendingStep = undefined;
-    user.lastLoeWatchedText = undefined;
+    user.lastLoeSchedule = undefined;
     user.lastLoeError = undefined;
-    await writeStateToDisk(state);
+    await saveState(state);
   });
 
   const groups = state.users[chatId]?.groups ?? [];
-  await ctx.reply(groups.length ? `Видалено ✅\nТепер групи: ${groups.join(', ')}` : 'Видалено ✅\nГрупи порожні. Використайте /groups');
+  await ctx.reply(groups.length ? m.groupsRemoved(groups) : m.groupsRemovedEmpty);
   await checkLikeCheckCommand(ctx);
 }
 
@@ -695,153 +935,688 @@ bot.command('check', async (ctx) => {
   await checkLikeCheckCommand(ctx);
 });
 
-bot.on('text', async (ctx) => {
-  
-  // Lightweight fallback for users who just type the 3 parameters on separate lines
-  const msg = (ctx.message.text ?? '').trim();
-  if (!msg) return;
-  if (msg.startsWith('/')) return;
-
+// Answers from whatever was fetched last; a slow or failing LOE must not delay "is there power now?".
+bot.command('now', async (ctx) => {
   const chatId = String(ctx.chat.id);
   const user = state.users[chatId];
-  const pending = user?.pendingStep;
-
-  if (pending) {
-    if (pending === 'groups') {
-      const groups = parseGroupsFromUserInput(msg);
-      if (groups.length === 0) {
-        await ctx.reply(['Не схоже на список груп.', '', formatPossibleGroups(), '', 'Приклад: 1.1, 3.2'].join('\n'));
-        await promptForNextStep(ctx, 'groups');
-        return;
-      }
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
+  if (!user?.groups?.length) {
+    await ctx.reply(m.noGroupsError);
+    return;
+  }
 
-      await runStateOp(async () => {
-        const u = await ensureUser(chatId);
-        u.groups = groups;
-        u.pendingStep = undefined;
-        u.watching = true; // enable by default once groups are set
-        u.lastLoeWatchedText = undefined; // reset snapshot on change
-        u.lastLoeError = undefined;
-        await writeStateToDisk(state);
-      });
+  const snapshot = snapshots[providerFor(user.providerId).id];
+  const schedules = knownSchedules(user, snapshot);
+  if (schedules.length === 0) {
+    await ctx.reply(m.nowNoData);
+    return;
+  }
+  const now = Date.now();
+  const statuses = user.groups.map((group) => groupPowerStatus(schedules, group, now));
+  const tomorrowMissing = !schedules.some((s) => s.date === shiftDate(zonedDateString(now), 1));
+  const asOf = snapshot?.fetchedAt ?? Date.parse(user.lastLoeCheckedAt ?? '');
+  const notes = [
+    tomorrowMissing ? m.nowTomorrowMissing : '',
+    Number.isFinite(asOf) ? m.nowAsOf(formatZonedDateTime(asOf)) : '',
+  ].filter(Boolean);
+  await ctx.reply(
+    [
+      m.nowTitle(formatZonedDateTime(now)),
+      '',
+      ...statuses.map((status) => formatGroupPowerStatus(status, now, lang)),
+      ...(notes.length ? ['', ...notes] : []),
+    ].join('\n'),
+  );
+});
 
-      await ctx.reply(
-        [
-          'Збережено ✅',
-          `Групи: ${groups.join(', ')}`,
-          '',
-          'Сповіщення: УВІМК.',
-        ].join('\n'),
-      );
+function formatAddressMiss(match: Exclude<AddressMatch, { kind: 'found' }>, lang: Lang): string {
+  const m = messages(lang);
+  switch (match.kind) {
+    case 'street_not_found':
+      return [m.addressStreetNotFound, match.suggestions.length ? m.addressDidYouMean(match.suggestions) : '']
+        .filter(Boolean)
+        .join('\n');
+    case 'ambiguous_street':
+      return [m.addressAmbiguousStreet, ...match.suggestions, '', m.addressClarifyStreet].join('\n');
+    case 'house_not_found':
+      return [m.addressHouseNotFound(match.street), match.houses.length ? m.addressKnownHouses(match.houses) : '']
+        .filter(Boolean)
+        .join('\n');
+    case 'ambiguous_city':
+      return [m.addressAmbiguousCity, m.addressSpecifyCity(match.cities), '', m.addressExampleWithCity].join('\n');
+  }
+}
 
-      // Baseline + immediate forced check to show current info
-      await runStateOp(async () => {
-        const u = await ensureUser(chatId);
-        await checkOneChat(chatId, u, true);
-      });
+// Point a chat at a (re)resolved address group, replacing the group the previous address resolved to.
+function applyAddressGroup(user: UserState, group: string): void {
+  const previous = user.address?.group;
+  const current = (user.groups ?? []).filter((g) => g !== previous || g === group);
+  user.groups = [...current, group].filter((g, idx, arr) => arr.indexOf(g) === idx);
+  user.lastLoeSchedule = undefined;
+  user.lastLoeTomorrowSchedule = undefined;
+  user.lastLoeError = undefined;
+}
 
-      return;
+// After the dataset is updated, re-resolve every stored address and tell chats whose group moved.
+async function reresolveAddresses(): Promise<Array<{ chatId: string; from?: string; to: string }>> {
+  const dataset = addressDataset;
+  if (!dataset) return [];
+  const moved: Array<{ chatId: string; from?: string; to: string }> = [];
+  for (const [chatId, user] of Object.entries(state.users)) {
+    const address = user.address;
+    if (!address || address.datasetVersion === dataset.version) continue;
+    const match = resolveAddress(dataset, providerFor(user.providerId).id, address.street, address.house, address.city);
+    if (match.kind !== 'found') {
+      // Keep the last known group; just remember we looked at this version.
+      address.datasetVersion = dataset.version;
+      continue;
+    }
+    if (match.record.group !== address.group) {
+      moved.push({ chatId, from: address.group, to: match.record.group });
+      applyAddressGroup(user, match.record.group);
     }
+    user.address = { ...address, group: match.record.group, datasetVersion: dataset.version };
+  }
+  await saveState(state);
+  return moved;
+}
 
-    if (pending === 'groups_add') {
-      const toAdd = parseGroupsFromUserInput(msg);
-      if (toAdd.length === 0) {
-        await ctx.reply(['Не схоже на список груп.', '', formatPossibleGroups(), '', 'Приклад: 1.1, 3.2'].join('\n'));
-        await promptForNextStep(ctx, 'groups_add');
-        return;
-      }
+bot.command('address', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const tail = (ctx.message?.text ?? '').replace(/^\/address(@\w+)?/i, '').trim();
+  const parts = tail
+    .split(/[,|]/)
+    .map((p: string) => p.trim())
+    .filter(Boolean);
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
+
+  if (parts.length < 2) {
+    const address = state.users[chatId]?.address;
+    await ctx.reply(
+      [
+        address
+          ? m.addressCurrent([address.city, address.street, address.house].filter(Boolean).join(', '), address.group)
+          : m.addressPrompt,
+        '',
+        m.addressUsage,
+      ].join('\n'),
+    );
+    return;
+  }
 
-      await runStateOp(async () => {
-        const u = await ensureUser(chatId);
-        const current = u.groups ?? [];
-        u.groups = [...current, ...toAdd].filter((g, idx, arr) => arr.indexOf(g) === idx);
-        u.pendingStep = undefined;
-        u.lastLoeWatchedText = undefined;
-        u.lastLoeError = undefined;
-        await writeStateToDisk(state);
-      });
+  const dataset = addressDataset;
+  if (!dataset) {
+    await ctx.reply(m.addressUnavailable);
+    return;
+  }
 
-      const groups = state.users[chatId]?.groups ?? [];
-      await ctx.reply(`Додано ✅\nТепер групи: ${groups.join(', ')}`);
-      await checkLikeCheckCommand(ctx);
-      return;
-    }
+  const house = parts[parts.length - 1];
+  const street = parts[parts.length - 2];
+  const city = parts.length >= 3 ? parts[0] : undefined;
+  const match = resolveAddress(dataset, chatProvider(chatId).id, street, house, city);
+  if (match.kind !== 'found') {
+    await ctx.reply(formatAddressMiss(match, lang));
+    return;
+  }
 
-    if (pending === 'groups_remove') {
-      const toRemove = parseGroupsFromUserInput(msg);
-      if (toRemove.length === 0) {
-        await ctx.reply(['Не схоже на список груп.', '', formatPossibleGroups(), '', 'Приклад: 1.1, 3.2'].join('\n'));
-        await promptForNextStep(ctx, 'groups_remove');
-        return;
-      }
+  const { record } = match;
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    // enable by default for chats that had no groups yet, same as the /start flow
+    if (!user.groups?.length) user.watching = true;
+    applyAddressGroup(user, record.group);
+    user.address = { city: city ?? record.city, street: record.street, house, group: record.group, datasetVersion: dataset.version };
+    user.pendingStep = undefined;
+    await saveState(state);
+  });
 
-      await runStateOp(async () => {
-        const u = await ensureUser(chatId);
-        const current = u.groups ?? [];
-        u.groups = current.filter((g) => !toRemove.includes(g));
-        u.pendingStep = undefined;
-        u.lastLoeWatchedText = undefined;
-        u.lastLoeError = undefined;
-        await writeStateToDisk(state);
-      });
+  const groups = state.users[chatId]?.groups ?? [];
+  await ctx.reply(
+    [
+      m.addressFound([record.city, record.street, record.house].filter(Boolean).join(', '), record.group),
+      m.watchingGroups(groups),
+    ].join('\n'),
+  );
+  await checkLikeCheckCommand(ctx);
+});
 
-      const groups = state.users[chatId]?.groups ?? [];
-      await ctx.reply(groups.length ? `Видалено ✅\nТепер групи: ${groups.join(', ')}` : 'Видалено ✅\nГрупи порожні. Використайте /groups');
-      await checkLikeCheckCommand(ctx);
-      return;
+bot.command('history', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const provider = chatProvider(chatId);
+  const tokens = (ctx.message?.text ?? '')
+    .replace(/^\/history(@\w+)?/i, '')
+    .trim()
+    .split(/\s+/)
+    .filter(Boolean);
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
+
+  let date = zonedDateString(Date.now());
+  const requestedGroups: string[] = [];
+  for (const token of tokens) {
+    const asDate = parseHistoryDate(token, Date.now());
+    if (asDate) {
+      date = asDate;
+      continue;
+    }
+    const g = normalizeGroupId(token);
+    if (g && provider.groups.includes(g)) {
+      requestedGroups.push(g);
+      continue;
     }
+    await ctx.reply([m.historyUnknownParam(token), '', m.historyUsage].join('\n'));
+    return;
   }
-});
 
-async function main() {
-  state = await readStateFromDisk();
+  const groups = requestedGroups.length ? requestedGroups : state.users[chatId]?.groups ?? [];
+  if (groups.length === 0) {
+    await ctx.reply(m.historyNoGroups);
+    return;
+  }
 
-  // Ensure shape
-  if (!state.users) state.users = {};
+  const revisions = await storage.listScheduleRevisions(provider.id, date, date);
+  await ctx.reply(formatHistory(revisions, date, groups, lang));
+});
 
-  // Make commands show up in Telegram UI ("/" menu)
-  try {
-    await bot.telegram.setMyCommands([
-      { command: 'start', description: 'Почати роботу' },
-      { command: 'groups_list', description: 'Показати вибрані групи' },
-      { command: 'add_group', description: 'Додати групи' },
-      { command: 'remove_group', description: 'Видалити групи' },
-      { command: 'check', description: 'Перевірити зараз' },
-    ]);
-  } catch {
-    // ignore: bot can still run even if Telegram command registration fails
+bot.command('stats_me', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const arg = (ctx.message?.text ?? '').replace(/^\/stats_me(@\w+)?/i, '').trim();
+  const period = parseStatsPeriod(arg);
+  const lang = ctxLang(ctx);
+  if (!period) {
+    await ctx.reply(messages(lang).statsUsage);
+    return;
+  }
+  const groups = state.users[chatId]?.groups ?? [];
+  if (groups.length === 0) {
+    await ctx.reply(messages(lang).addGroupsFirst);
+    return;
   }
 
-  // const message = `Робочий тиждень добігає кінця, а вечір п’ятниці вже тут 🌙\nСаме час перепочити, перезавантажитися й підготуватися до нового дня 🌞\nНехай у кожного буде затишний вечір, тиха ніч, багато світла та мирні вихідні 🕊️✨\nЯкщо виникнуть питання чи потрібна буде підтримка — я завжди на зв’язку 🤝\nІз задоволенням допоможу 💪\nВаш Енерго-Бот 🤖`;
-  // setTimeout(async () => {
-  //   const users = Object.keys(state.users);
-  //   for (const userId of users) {
-  //     await bot.telegram.sendMessage(userId, message);
-  //   }
-  // }, 2000);
+  const to = zonedDateString(Date.now());
+  const from = shiftDate(to, -(STATS_PERIOD_DAYS[period] - 1));
+  const revisions = await storage.listScheduleRevisions(chatProvider(chatId).id, from, to);
+  await ctx.reply(formatOutageStats(computeOutageStats(revisions, groups, from, to), period, lang), {
+    parse_mode: 'HTML',
+  });
+});
 
-  // Initial check shortly after boot, then keep scheduling the next run with a randomized delay.
-  const scheduleNext = () => {
-    const delayMs = nextCheckDelayMs();
-    console.log(`Next scheduled check in ${delayMs}ms (${formatInterval(delayMs)})`);
-    setTimeout(() => {
-      console.log('Checking all watching chats...', new Date().toISOString());
-      runStateOp(async () => {
-        await checkAllWatchingChats();
-      })
-        .catch(() => undefined)
-        .finally(() => scheduleNext());
-    }, delayMs);
-  };
+bot.command('region', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const tail = (ctx.message?.text ?? '').replace(/^\/region(@\w+)?/i, '').trim().toLowerCase();
+  const current = chatProvider(chatId);
+  const m = messages(ctxLang(ctx));
 
-  setTimeout(() => {
-    runStateOp(async () => {
-      await checkAllWatchingChats();
-    })
-      .catch(() => undefined)
-      .finally(() => scheduleNext());
-  }, 2000);
+  if (!tail) {
+    await ctx.reply(
+      [
+        m.regionCurrent(current.name),
+        '',
+        m.regionAvailable,
+        ...SCHEDULE_PROVIDERS.map((p) => `${p.id} — ${p.name}`),
+        '',
+        m.example(`/region ${DEFAULT_PROVIDER_ID}`),
+      ].join('\n'),
+    );
+    return;
+  }
+
+  const provider = findProvider(tail);
+  if (!provider) {
+    await ctx.reply(
+      [m.regionUnknown, '', m.regionAvailable, ...SCHEDULE_PROVIDERS.map((p) => `${p.id} — ${p.name}`)].join('\n'),
+    );
+    return;
+  }
+  if (provider.id === current.id) {
+    await ctx.reply(m.regionAlreadySet(provider.name));
+    return;
+  }
+
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    user.providerId = provider.id;
+    // Group ids are provider-specific; keep only the ones the new provider knows about.
+    user.groups = (user.groups ?? []).filter((g) => provider.groups.includes(g));
+    user.lastLoeSchedule = undefined;
+    user.lastLoeTomorrowSchedule = undefined;
+    user.lastLoeTomorrowStatus = undefined;
+    user.lastLoeError = undefined;
+    user.lastLoeTomorrowError = undefined;
+    if (user.groups.length === 0) user.pendingStep = 'groups';
+    await saveState(state);
+  });
+
+  const groups = state.users[chatId]?.groups ?? [];
+  await ctx.reply(m.regionChanged(provider.name));
+  if (groups.length === 0) {
+    await promptForNextStep(ctx, 'groups');
+    return;
+  }
+  await checkLikeCheckCommand(ctx);
+});
+
+bot.command('quiet', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const tail = (ctx.message?.text ?? '').replace(/^\/quiet(@\w+)?/i, '').trim();
+  const m = messages(ctxLang(ctx));
+
+  if (!tail) {
+    const q = state.users[chatId]?.quietHours;
+    await ctx.reply([q ? m.quietCurrent(formatQuietHours(q), q.mode) : m.quietDisabled, '', m.quietUsage].join('\n'));
+    return;
+  }
+
+  if (/^(off|вимк\S*)$/i.test(tail)) {
+    await runStateOp(async () => {
+      const user = await ensureUser(chatId);
+      user.quietHours = undefined;
+      await saveState(state);
+    });
+    // Anything still held goes out on the next tick.
+    await ctx.reply(m.quietDisabledSaved);
+    return;
+  }
+
+  // "/quiet 23:00-07:00", "/quiet hold" or both: "/quiet 23:00-07:00 hold"
+  const modeMatch = tail.match(/(?:^|\s)(silent|hold)$/i);
+  const mode = modeMatch?.[1].toLowerCase() as QuietMode | undefined;
+  const rangeText = (modeMatch ? tail.slice(0, modeMatch.index) : tail).trim();
+  const range = rangeText ? parseQuietRange(rangeText) : undefined;
+  const current = state.users[chatId]?.quietHours;
+
+  if (rangeText && !range) {
+    await ctx.reply([m.quietNotARange, '', m.quietUsage].join('\n'));
+    return;
+  }
+  const hours = range ?? current;
+  if (!hours) {
+    await ctx.reply(m.quietSetRangeFirst);
+    return;
+  }
+
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    user.quietHours = { start: hours.start, end: hours.end, mode: mode ?? current?.mode ?? 'silent' };
+    await saveState(state);
+  });
+
+  const q = state.users[chatId]!.quietHours!;
+  await ctx.reply(`${m.savedPrefix}\n${m.quietCurrent(formatQuietHours(q), q.mode)}`);
+});
+
+bot.command('digest', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const tail = (ctx.message?.text ?? '').replace(/^\/digest(@\w+)?/i, '').trim();
+  const m = messages(ctxLang(ctx));
+
+  if (!tail) {
+    const at = state.users[chatId]?.digestAt;
+    await ctx.reply([m.digestCurrent(at === undefined ? undefined : formatMinutes(at)), '', m.digestUsage].join('\n'));
+    return;
+  }
+
+  const off = /^(off|вимк\S*)$/i.test(tail);
+  const at = off ? undefined : parseClockMinutes(tail);
+  if (at === null) {
+    await ctx.reply([m.digestNotATime, '', m.digestUsage].join('\n'));
+    return;
+  }
+
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    user.digestAt = at;
+    // A time later today should still fire today, even if today's digest already went out at the old time.
+    user.lastDigestDate = undefined;
+    await saveState(state);
+  });
+
+  await ctx.reply(at === undefined ? m.digestDisabledSaved : m.digestSaved(formatMinutes(at)));
+});
+
+// Known schedules for the chat's provider, newest first per date: the live snapshot wins over the
+// per-chat copies, which still work when LOE is unreachable.
+function knownSchedules(user: UserState, snapshot: ScheduleSnapshot | undefined): DaySchedule[] {
+  const known = [
+    snapshot?.today?.schedule,
+    snapshot?.tomorrow?.schedule,
+    user.lastLoeSchedule,
+    user.lastLoeTomorrowSchedule,
+  ].filter((s): s is DaySchedule => Boolean(s?.date));
+  return known.filter((s, idx) => known.findIndex((k) => k.date === s.date) === idx);
+}
+
+// The feed URL is public and calendar apps poll it, so it is served from what the polling cycle
+// fetched last and never waits for LOE or the state lock.
+async function calendarFeed(token: string): Promise<string | undefined> {
+  const user = Object.values(state.users).find((u) => u.calendarToken === token);
+  if (!user) return undefined;
+  const groups = user.groups ?? [];
+  const provider = providerFor(user.providerId);
+  const now = Date.now();
+  const schedules = knownSchedules(user, snapshots[provider.id]);
+  const events = collectOutageEvents(schedules, groups, provider.id, now);
+  return buildOutageCalendar(events, groups, provider.name, now, user.lang ?? DEFAULT_LANG);
+}
+
+bot.command('calendar', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const arg = (ctx.message?.text ?? '').replace(/^\/calendar(@\w+)?/i, '').trim().toLowerCase();
+  const lang = ctxLang(ctx);
+  const m = messages(lang);
+
+  if (arg === 'link') {
+    if (!PUBLIC_URL) {
+      await ctx.reply(m.calendarLinkUnavailable);
+      return;
+    }
+    const calendarToken = await runStateOp(async () => {
+      const user = await ensureUser(chatId);
+      if (!user.calendarToken) {
+        user.calendarToken = randomBytes(16).toString('hex');
+        await saveState(state);
+      }
+      return user.calendarToken;
+    });
+    await ctx.reply(m.calendarLink(publicUrl(PUBLIC_URL, `/calendar/${calendarToken}.ics`)));
+    return;
+  }
+
+  if (arg === 'off') {
+    await runStateOp(async () => {
+      const user = await ensureUser(chatId);
+      user.calendarToken = undefined;
+      await saveState(state);
+    });
+    await ctx.reply(m.calendarLinkRevoked);
+    return;
+  }
+
+  const user = state.users[chatId];
+  const groups = user?.groups ?? [];
+  if (!user || groups.length === 0) {
+    await ctx.reply(m.addGroupsFirst);
+    return;
+  }
+  const provider = chatProvider(chatId);
+  const now = Date.now();
+  const schedules = knownSchedules(user, snapshots[provider.id]);
+  const events = collectOutageEvents(schedules, groups, provider.id, now);
+  const caption = [events.length ? m.calendarEvents(events.length) : m.calendarNoEvents, PUBLIC_URL ? m.calendarAutoUpdate : '']
+    .filter(Boolean)
+    .join('\n');
+  await ctx.replyWithDocument(
+    { source: Buffer.from(buildOutageCalendar(events, groups, provider.name, now, lang), 'utf8'), filename: 'outages.ics' },
+    { caption },
+  );
+});
+
+function formatStatusTime(iso: string | undefined): string {
+  if (!iso) return '—';
+  const ms = Date.parse(iso);
+  return Number.isFinite(ms) ? formatZonedDateTime(ms) : '—';
+}
+
+bot.command('status', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const user = state.users[chatId];
+  const provider = chatProvider(chatId);
+  const cycle = lastCycleResults[provider.id];
+  const m = messages(ctxLang(ctx));
+
+  await ctx.reply(
+    [
+      m.statusTitle,
+      '',
+      m.statusNotifications(Boolean(user?.watching)),
+      m.statusGroups(user?.groups?.length ? user.groups.join(', ') : '—'),
+      m.statusRegion(provider.name),
+      m.statusSource(provider.sourceUrl()),
+      m.statusDelivery(user?.lastDeliveryError, formatStatusTime(user?.lastDeliveryErrorAt)),
+      '',
+      m.statusToday,
+      m.statusLastCheck(formatStatusTime(user?.lastLoeCheckedAt)),
+      m.statusLastNotified(formatStatusTime(user?.lastLoeNotifiedAt)),
+      m.statusError(user?.lastLoeError),
+      '',
+      m.statusTomorrow,
+      m.statusTomorrowSchedule(user?.lastLoeTomorrowStatus),
+      m.statusLastCheck(formatStatusTime(user?.lastLoeTomorrowCheckedAt)),
+      m.statusLastNotified(formatStatusTime(user?.lastLoeTomorrowNotifiedAt)),
+      m.statusError(user?.lastLoeTomorrowError),
+      '',
+      m.statusScheduler,
+      m.statusLastCycle(cycle && { at: formatZonedDateTime(cycle.at), ok: cycle.ok, error: cycle.error }),
+      m.statusNextCycle(nextScheduledCheckAt ? formatZonedDateTime(nextScheduledCheckAt) : undefined),
+    ].join('\n'),
+  );
+});
+
+bot.command('remind', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const tail = (ctx.message?.text ?? '').replace(/^\/remind(@\w+)?/i, '').trim();
+  const m = messages(ctxLang(ctx));
+
+  if (!tail) {
+    const current = state.users[chatId]?.remindLeadMinutes ?? [];
+    await ctx.reply([m.remindCurrent(current), '', m.remindUsage].join('\n'));
+    return;
+  }
+
+  const off = /^(off|вимк\S*)$/i.test(tail);
+  const leads = off ? [] : parseRemindLeadMinutes(tail);
+  if (!leads) {
+    await ctx.reply(m.remindNotAList(MAX_REMIND_LEAD_MINUTES));
+    return;
+  }
+
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    user.remindLeadMinutes = leads.length ? leads : undefined;
+    await saveState(state);
+  });
+
+  await ctx.reply(leads.length ? m.remindSaved(leads) : m.remindDisabledSaved);
+});
+
+async function setChatLang(chatId: string, lang: Lang): Promise<void> {
+  await runStateOp(async () => {
+    const user = await ensureUser(chatId);
+    user.lang = lang;
+    await saveState(state);
+  });
+}
+
+bot.command('lang', async (ctx) => {
+  const chatId = String(ctx.chat.id);
+  const arg = (ctx.message?.text ?? '').replace(/^\/lang(@\w+)?/i, '').trim().toLowerCase();
+  const m = messages(ctxLang(ctx));
+  if (!arg) {
+    await ctx.reply(
+      m.langCurrent,
+      Markup.inlineKeyboard(LANGS.map((lang) => Markup.button.callback(LANG_LABELS[lang], `lang:${lang}`))),
+    );
+    return;
+  }
+  if (!isLang(arg)) {
+    await ctx.reply(m.langUnknown);
+    return;
+  }
+  await setChatLang(chatId, arg);
+  await ctx.reply(messages(arg).langSaved);
+});
+
+bot.action(/^lang:(\w+)$/, async (ctx) => {
+  const lang = ctx.match[1];
+  if (!isLang(lang)) {
+    await ctx.answerCbQuery();
+    return;
+  }
+  await setChatLang(String(ctx.chat?.id), lang);
+  await ctx.answerCbQuery();
+  await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+  await ctx.reply(messages(lang).langSaved);
+});
 
+function isAdmin(ctx: any): boolean {
+  return ADMIN_CHAT_IDS.has(String(ctx.chat?.id));
+}
+
+// Broadcast text waiting for the admin to confirm it, per admin chat
+const pendingBroadcasts: Record<string, { text: string; createdAt: number }> = {};
+
+bot.command('broadcast', async (ctx) => {
+  // Admin commands stay invisible to everyone else
+  if (!isAdmin(ctx)) return;
+  const chatId = String(ctx.chat.id);
+  const text = (ctx.message?.text ?? '').replace(/^\/broadcast(@\w+)?/i, '').trim();
+  const m = messages(ctxLang(ctx));
+  if (!text) {
+    await ctx.reply(m.broadcastUsage);
+    return;
+  }
+
+  pendingBroadcasts[chatId] = { text, createdAt: Date.now() };
+  await ctx.reply(m.broadcastPreview(Object.keys(state.users).length));
+  await ctx.reply(
+    text,
+    Markup.inlineKeyboard([
+      Markup.button.callback(m.broadcastSend, 'broadcast:send'),
+      Markup.button.callback(m.broadcastCancel, 'broadcast:cancel'),
+    ]),
+  );
+});
+
+bot.action(/^broadcast:(send|cancel)$/, async (ctx) => {
+  if (!isAdmin(ctx)) {
+    await ctx.answerCbQuery();
+    return;
+  }
+  const chatId = String(ctx.chat?.id);
+  const pending = pendingBroadcasts[chatId];
+  delete pendingBroadcasts[chatId];
+  await ctx.editMessageReplyMarkup(undefined).catch(() => undefined);
+  const m = messages(ctxLang(ctx));
+
+  if (ctx.match[1] === 'cancel') {
+    await ctx.answerCbQuery(m.broadcastCancelledToast);
+    await ctx.reply(m.broadcastCancelled);
+    return;
+  }
+  if (!pending || Date.now() - pending.createdAt > BROADCAST_CONFIRM_TTL_MS) {
+    await ctx.answerCbQuery(m.broadcastExpiredToast);
+    await ctx.reply(m.broadcastExpired);
+    return;
+  }
+  await ctx.answerCbQuery(m.broadcastSendingToast);
+  // Not awaited: in webhook mode Telegram would time out and redeliver the update mid-broadcast.
+  sendBroadcast(chatId, pending.text).catch((err: any) => console.error('Broadcast failed:', err?.message ?? err));
+});
+
+// Deliberately outside runStateOp: a large broadcast must not hold up polling and commands.
+// The send queue does the throttling; quiet hours are checked when each message actually goes out.
+async function sendBroadcast(adminChatId: string, text: string): Promise<void> {
+  const recipients = Object.keys(state.users);
+  const results = await Promise.allSettled(
+    recipients.map((recipient) =>
+      telegramSend(recipient, () => {
+        const quiet = state.users[recipient]?.quietHours;
+        return bot.telegram.sendMessage(recipient, text, {
+          disable_notification: quiet ? isQuietAt(quiet, Date.now()) : false,
+        });
+      }),
+    ),
+  );
+
+  const failed: string[] = [];
+  for (const [idx, result] of results.entries()) {
+    if (result.status === 'fulfilled') continue;
+    failed.push(recipients[idx]);
+    await runStateOp(() => recordDeliveryFailure(recipients[idx], result.reason));
+  }
+  deliverText(adminChatId, messages(state.users[adminChatId]?.lang).broadcastDone(recipients.length - failed.length, failed));
+}
+
+bot.command('stats', async (ctx) => {
+  if (!isAdmin(ctx)) return;
+  await ctx.reply(formatBotStats(state, ctxLang(ctx)));
+});
+
+bot.command('user', async (ctx) => {
+  if (!isAdmin(ctx)) return;
+  const target = (ctx.message?.text ?? '').replace(/^\/user(@\w+)?/i, '').trim();
+  const lang = ctxLang(ctx);
+  if (!target) {
+    await ctx.reply(messages(lang).userUsage);
+    return;
+  }
+  const user = state.users[target];
+  await ctx.reply(user ? formatUserDump(target, user, lang) : messages(lang).userNotFound(target));
+});
+
+bot.command('force_check_all', async (ctx) => {
+  if (!isAdmin(ctx)) return;
+  await ctx.reply(messages(ctxLang(ctx)).forceCheckStarted);
+  const chatId = String(ctx.chat.id);
+  // Not awaited, like /broadcast: a full cycle can outlast a webhook request.
+  forceCheckAll(chatId).catch((err: any) => console.error('Forced check failed:', err?.message ?? err));
+});
+
+async function forceCheckAll(adminChatId: string): Promise<void> {
+  const startedAt = Date.now();
+  await runStateOp(async () => {
+    // Forget what was evaluated last so an unchanged snapshot doesn't short-circuit the cycle
+    for (const id of Object.keys(lastEvaluated)) delete lastEvaluated[id];
+    await checkAllWatchingChats();
+  });
+
+  const lang = state.users[adminChatId]?.lang ?? DEFAULT_LANG;
+  const m = messages(lang);
+  const results = Object.entries(lastCycleResults)
+    .filter(([, r]) => r.at >= startedAt)
+    .map(([id, r]) => m.forceCheckResult(findProvider(id)?.name ?? id, r.ok, r.error));
+  deliverText(
+    adminChatId,
+    [
+      m.forceCheckDone(formatInterval(Date.now() - startedAt, lang), Object.values(state.users).filter((u) => u.watching).length),
+      ...(results.length ? ['', ...results] : []),
+    ].join('\n'),
+  );
+}
+
+bot.on('text', async (ctx) => {
+  
+  // Lightweight fallback for users who just type the 3 parameters on separate lines
+  const msg = (ctx.message.text ?? '').trim();
+  if (!msg) return;
+  if (msg.startsWith('/')) return;
+
+  const chatId = String(ctx.chat.id);
+  const user = state.users[chatId];
+  const pending = user?.pendingStep;
+
+  if (pending) {
+    const groups = parseGroupsFromUserInput(msg, chatProvider(chatId).groups);
+    if (groups.length === 0) {
+      const lang = ctxLang(ctx);
+      const m = messages(lang);
+      await ctx.reply(
+        [m.notAGroupList, '', formatPossibleGroups(chatProvider(chatId).groups, lang), '', m.example('1.1, 3.2')].join('\n'),
+      );
+      await promptForNextStep(ctx, pending);
+      return;
+    }
+    await applyGroupSelection(ctx, pending, groups);
+  }
+});
+
+let httpServer: Server | undefined;
+// Set on SIGINT / SIGTERM; the timers below stop starting new work
+let shuttingDown = false;
+
+async function launchPolling(): Promise<void> {
   // If this bot was previously configured with a webhook, long-polling will fail.
   // Clearing webhook here makes long-polling startup more reliable across deploys.
   try {
@@ -861,19 +1636,138 @@ async function main() {
         [
           'Telegram 409 conflict while starting long polling.',
           'This means another bot instance is already calling getUpdates for the same BOT_TOKEN.',
-          'Stop the other instance (local dev / another Render service / another process) or switch to webhooks.',
+          'Stop the other instance (local dev / another Render service / another process) or switch to webhooks (BOT_MODE=webhook).',
           `Details: ${String(desc)}`,
         ].join(' '),
       );
     }
     throw err;
   }
-  
+}
+
+async function main() {
+  storage = await createStorage({
+    backend: STATE_BACKEND,
+    jsonPath: STATE_FILE_PATH,
+    historyJsonPath: HISTORY_FILE_PATH,
+    sqlitePath: SQLITE_PATH,
+    onUnreadable: STATE_ON_UNREADABLE as UnreadableStateAction,
+  });
+  state = await storage.load();
+  console.log(`State loaded from ${storage.describe()}: ${Object.keys(state.users).length} chats`);
+
+  try {
+    addressDataset = await loadAddressDataset(ADDRESS_DATASET_PATH, DEFAULT_PROVIDER_ID);
+    console.log(`Address dataset loaded: ${addressDataset.records.length} records (${ADDRESS_DATASET_PATH})`);
+  } catch (err: any) {
+    // /address is optional: without a dataset the bot still works with manually entered groups
+    console.warn(`Address dataset not loaded (${ADDRESS_DATASET_PATH}): ${err?.message ?? err}`);
+  }
+
+  // Ensure shape
+  if (!state.users) state.users = {};
+
+  // Make commands show up in Telegram UI ("/" menu), in the user's Telegram language where we have it
+  const commands = (descriptions: Record<string, string>) =>
+    Object.entries(descriptions).map(([command, description]) => ({ command, description }));
+  try {
+    await bot.telegram.setMyCommands(commands(messages(DEFAULT_LANG).commands));
+    for (const lang of LANGS.filter((l) => l !== DEFAULT_LANG)) {
+      await bot.telegram.setMyCommands(commands(messages(lang).commands), { language_code: lang });
+    }
+    // Admins additionally see the operator commands, in their own chats only
+    for (const adminChatId of ADMIN_CHAT_IDS) {
+      const m = messages(state.users[adminChatId]?.lang);
+      await bot.telegram.setMyCommands([...commands(m.commands), ...commands(m.adminCommands)], {
+        scope: { type: 'chat', chat_id: Number(adminChatId) },
+      });
+    }
+  } catch {
+    // ignore: bot can still run even if Telegram command registration fails
+  }
+
+  const moved = await runStateOp(() => reresolveAddresses());
+  for (const { chatId, from, to } of moved) {
+    deliverText(chatId, messages(state.users[chatId]?.lang).addressGroupMoved(to, from));
+  }
+
+  // Initial check shortly after boot, then keep scheduling the next run as the polling policy says.
+  const scheduleNext = () => {
+    const { delayMs, reason } = nextCheckDelay();
+    nextScheduledCheckAt = Date.now() + delayMs;
+    console.log(
+      `Next scheduled check at ${formatZonedDateTime(nextScheduledCheckAt)} (in ${formatInterval(delayMs, 'en')}): ${reason}`,
+    );
+    setTimeout(() => {
+      if (shuttingDown) return;
+      nextScheduledCheckAt = undefined;
+      console.log('Checking all watching chats...', new Date().toISOString());
+      runStateOp(async () => {
+        await checkAllWatchingChats();
+      })
+        .catch(() => undefined)
+        .finally(() => scheduleNext());
+    }, delayMs);
+  };
+
+  setTimeout(() => {
+    if (shuttingDown) return;
+    runStateOp(async () => {
+      await checkAllWatchingChats();
+    })
+      .catch(() => undefined)
+      .finally(() => scheduleNext());
+  }, 2000);
+
+  // Reminders are recomputed from the persisted snapshots on every tick, so they follow
+  // schedule changes and pick up where they left off after a restart. Messages held during
+  // quiet hours are released on the same tick.
+  setInterval(() => {
+    if (shuttingDown) return;
+    runStateOp(async () => {
+      await sendDueReminders();
+      await flushHeldMessages();
+    }).catch(() => undefined);
+  }, REMINDER_TICK_MS);
+
+  // Due digests are derived from the persisted `digestAt` / `lastDigestDate`, so a restart
+  // neither loses nor repeats the day's digest.
+  setInterval(() => {
+    if (shuttingDown) return;
+    runStateOp(async () => {
+      await sendDueDigests();
+    }).catch(() => undefined);
+  }, DIGEST_TICK_MS);
+
+  if (HTTP_SERVER_ENABLED) {
+    httpServer = await startHttpServer({
+      port: PORT,
+      webhook:
+        BOT_MODE === 'webhook' ? { bot, path: WEBHOOK_PATH, secretToken: WEBHOOK_SECRET_TOKEN } : undefined,
+      calendarFeed: PUBLIC_URL ? calendarFeed : undefined,
+    });
+    console.log(`HTTP server listening on port ${PORT}`);
+  }
+
+  if (BOT_MODE === 'webhook') {
+    if (WEBHOOK_URL) {
+      await bot.telegram.setWebhook(publicUrl(WEBHOOK_URL, WEBHOOK_PATH), {
+        secret_token: WEBHOOK_SECRET_TOKEN,
+        drop_pending_updates: true,
+      });
+      console.log(`Webhook registered: ${publicUrl(WEBHOOK_URL, WEBHOOK_PATH)}`);
+    } else {
+      console.warn(`WEBHOOK_URL is not set: the webhook was not registered with Telegram (local mode, path ${WEBHOOK_PATH})`);
+    }
+  } else {
+    await launchPolling();
+  }
+
   // eslint-disable-next-line no-console
   console.log(
     FIXED_CHECK_EVERY_MS !== undefined
       ? `Bot is running.. Scheduler interval: ${FIXED_CHECK_EVERY_MS}ms`
-      : `Bot is running.. Scheduler interval: randomized ${CHECK_EVERY_MIN_MS}ms..${CHECK_EVERY_MAX_MS}ms`,
+      : `Bot is running.. Scheduler interval: adaptive, base ${CHECK_EVERY_MIN_MS}ms..${CHECK_EVERY_MAX_MS}ms`,
   );
 }
 
@@ -885,18 +1779,43 @@ main().then(() => {
   process.exit(1);
 });
 
-process.once('SIGINT', () => {
-  try {
-    bot.stop('SIGINT');
-  } catch {
-    // ignore (nodemon restarts can call stop before launch fully completes)
+// Stop taking updates and starting checks, let the running state operation finish and the queued
+// messages go out (for at most SHUTDOWN_SEND_DRAIN_MS), then close storage and exit.
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.log(`${signal} received, shutting down...`);
+  if (httpServer) await closeHttpServer(httpServer);
+  if (BOT_MODE === 'polling') {
+    try {
+      bot.stop(signal);
+    } catch {
+      // ignore (nodemon restarts can call stop before launch fully completes)
+    }
   }
+  // Whatever the running operation sends is queued by the time it finishes
+  await runStateOp(async () => undefined);
+  if (sendQueue.pending() > 0) console.log(`Waiting for ${sendQueue.pending()} queued messages to be sent...`);
+  const drained = await Promise.race([
+    sendQueue.idle().then(() => true),
+    new Promise<boolean>((resolve) => setTimeout(() => resolve(false), SHUTDOWN_SEND_DRAIN_MS)),
+  ]);
+  if (!drained) console.warn(`Exiting with ${sendQueue.pending()} messages still queued`);
+
+  // Queued behind whatever is in flight; exiting from inside keeps later ticks from touching closed storage.
+  await runStateOp(async () => {
+    try {
+      await storage?.close();
+    } catch (err: any) {
+      console.error('Failed to close storage:', err?.message ?? err);
+    }
+    process.exit(0);
+  });
+}
+
+process.once('SIGINT', () => {
+  shutdown('SIGINT').catch(() => process.exit(1));
 });
 process.once('SIGTERM', () => {
-  try {
-    bot.stop('SIGTERM');
-  } catch {
-    // ignore
-  }
+  shutdown('SIGTERM').catch(() => process.exit(1));
 });
-
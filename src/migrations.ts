@@ -0,0 +1,76 @@
+import { parseDaySchedule } from './schedule';
+
+// Persisted chat state is versioned. Each migration upgrades one stored chat object from the
+// previous version to its own, in place; they run in order on load, before normalizeUserState.
+// State saved before versioning existed is version 0. To change the stored shape, append a
+// migration: STATE_SCHEMA_VERSION follows.
+
+type StateMigration = {
+  version: number;
+  description: string;
+  migrateChat(chat: Record<string, any>): void;
+};
+
+function firstString(chat: Record<string, any>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    if (typeof chat[key] === 'string' && chat[key].trim()) return chat[key].trim();
+  }
+  return undefined;
+}
+
+const STATE_MIGRATIONS: StateMigration[] = [
+  {
+    version: 1,
+    description: 'raw LOE texts become structured schedules',
+    migrateChat(chat) {
+      if (typeof chat.lastLoeWatchedText === 'string' && !chat.lastLoeSchedule) {
+        chat.lastLoeSchedule = parseDaySchedule(chat.lastLoeWatchedText);
+      }
+      if (typeof chat.lastLoeTomorrowWatchedText === 'string' && !chat.lastLoeTomorrowSchedule) {
+        chat.lastLoeTomorrowSchedule = parseDaySchedule(chat.lastLoeTomorrowWatchedText);
+      }
+      delete chat.lastLoeWatchedText;
+      delete chat.lastLoeTomorrowWatchedText;
+    },
+  },
+  {
+    version: 2,
+    description: 'City / Address / HouseNumber from the schedule-page era become `address`',
+    migrateChat(chat) {
+      // The group is left empty; the address is re-resolved against the dataset on startup.
+      const street = typeof chat.address === 'string' ? chat.address.trim() : firstString(chat, ['Address', 'street']);
+      const house = firstString(chat, ['houseNumber', 'HouseNumber', 'house']);
+      const city = firstString(chat, ['city', 'City']);
+      if (street && house && (!chat.address || typeof chat.address === 'string')) {
+        chat.address = { city, street, house };
+      } else if (typeof chat.address === 'string') {
+        delete chat.address;
+      }
+      for (const key of ['city', 'City', 'Address', 'street', 'houseNumber', 'HouseNumber', 'house']) delete chat[key];
+    },
+  },
+];
+
+export const STATE_SCHEMA_VERSION = STATE_MIGRATIONS.length;
+
+// `schemaVersion` of a stored state; missing means it predates versioning.
+export function storedSchemaVersion(raw: any): number {
+  const v = raw?.schemaVersion;
+  if (v === undefined) return 0;
+  if (!Number.isInteger(v) || v < 0) throw new Error(`invalid schemaVersion ${JSON.stringify(v)}`);
+  if (v > STATE_SCHEMA_VERSION) {
+    throw new Error(`schemaVersion ${v} is newer than this version of the bot supports (${STATE_SCHEMA_VERSION})`);
+  }
+  return v;
+}
+
+// Upgrades every stored chat object from `fromVersion` to STATE_SCHEMA_VERSION, in place.
+export function migrateChats(chats: Record<string, any>, fromVersion: number): void {
+  for (const migration of STATE_MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    console.log(`Migrating state to v${migration.version}: ${migration.description}`);
+    for (const chat of Object.values(chats)) {
+      if (chat && typeof chat === 'object') migration.migrateChat(chat);
+    }
+  }
+}
@@ -0,0 +1,211 @@
+import { DEFAULT_LANG, messages } from './i18n';
+import { ScheduleDayItem, ScheduleSnapshot } from './providers';
+import { scheduleChangeIsUrgent } from './quiet';
+import { DaySchedule, formatDaySchedule, formatScheduleDiff, pickGroups, sameSchedulesForGroups } from './schedule';
+import { UserState } from './state';
+import { shiftDate, zonedDateString } from './time';
+
+// The today/tomorrow change logic of a schedule check, kept free of Telegram and storage so the
+// bot and the offline replay (./replay) decide the same way. The caller saves the chat and sends.
+
+export type ScheduleNotice = {
+  text: string;
+  urgent: boolean; // breaks through quiet hours
+  picture: { item: ScheduleDayItem; linkLabel: string };
+};
+
+// What a polling cycle last evaluated chats against; an identical snapshot on the same Kyiv day needs
+// no per-chat work. The day is part of the key because the new day's schedule is announced once.
+export type EvaluatedSnapshot = { contentHash: string; day: string };
+
+export function evaluationKey(snapshot: ScheduleSnapshot, now: number): EvaluatedSnapshot {
+  return { contentHash: snapshot.contentHash, day: zonedDateString(now) };
+}
+
+export function sameEvaluation(a: EvaluatedSnapshot | undefined, b: EvaluatedSnapshot): boolean {
+  return Boolean(a && a.contentHash === b.contentHash && a.day === b.day);
+}
+
+// Stored snapshots are keyed by the calendar date they are for: the date from the schedule's header,
+// or the Kyiv day it was seen on (plus one for "Tomorrow") when the header has none.
+function withDate(schedule: DaySchedule, fallbackDate: string): DaySchedule {
+  return schedule.date ? schedule : { ...schedule, date: fallbackDate };
+}
+
+// Snapshots saved before they carried a date fall back to the Kyiv day of their last notification.
+function storedDate(schedule: DaySchedule, notifiedAt: string | undefined, offsetDays: number): string | undefined {
+  if (schedule.date) return schedule.date;
+  const ms = notifiedAt ? Date.parse(notifiedAt) : NaN;
+  return Number.isFinite(ms) ? shiftDate(zonedDateString(ms), offsetDays) : undefined;
+}
+
+// After midnight yesterday's "Tomorrow" is today's schedule. The chat was already told about it,
+// so it becomes the today snapshot and only later changes to it are reported.
+export function rollOverTomorrow(user: UserState, todayDate: string): void {
+  const tomorrow = user.lastLoeTomorrowSchedule;
+  if (!tomorrow) return;
+  const tomorrowDate = storedDate(tomorrow, user.lastLoeTomorrowNotifiedAt, 1);
+  if (!tomorrowDate || tomorrowDate > todayDate) return;
+
+  const today = user.lastLoeSchedule;
+  const todayStoredDate = today && storedDate(today, user.lastLoeNotifiedAt, 0);
+  const announced = Boolean(user.lastLoeTomorrowNotifiedAt) && Object.keys(tomorrow.groups).length > 0;
+  if (announced && tomorrowDate === todayDate && (!todayStoredDate || todayStoredDate < tomorrowDate)) {
+    user.lastLoeSchedule = { ...tomorrow, date: tomorrowDate };
+    user.lastLoeNotifiedAt = user.lastLoeTomorrowNotifiedAt;
+    user.lastLoeImageHash = user.lastLoeTomorrowImageHash;
+  }
+  user.lastLoeTomorrowSchedule = undefined;
+  user.lastLoeTomorrowNotifiedAt = undefined;
+  user.lastLoeTomorrowImageHash = undefined;
+  user.lastLoeTomorrowStatus = undefined;
+}
+
+// Compares the snapshot with what the chat saw last, updates the chat's tracking fields and returns
+// the notifications to send, in order. `user.groups` must not be empty.
+export function evaluateChatSnapshot(
+  user: UserState,
+  snapshot: Pick<ScheduleSnapshot, 'today' | 'tomorrow'>,
+  now: number,
+  forceCheck: boolean = false,
+): ScheduleNotice[] {
+  const groups = user.groups ?? [];
+  const lang = user.lang ?? DEFAULT_LANG;
+  const m = messages(lang);
+  const nowIso = new Date(now).toISOString();
+  const todayDate = zonedDateString(now);
+  const { today, tomorrow } = snapshot;
+  const notices: ScheduleNotice[] = [];
+  rollOverTomorrow(user, todayDate);
+
+  // Around midnight LOE can still show yesterday's "Today" (and today's schedule as "Tomorrow")
+  const currentDate = today?.schedule.date ?? todayDate;
+  const prevDate = user.lastLoeSchedule && storedDate(user.lastLoeSchedule, user.lastLoeNotifiedAt, 0);
+  const todayIsStale = Boolean(prevDate && currentDate < prevDate);
+  const tomorrowDate = tomorrow?.schedule.date ?? shiftDate(todayDate, 1);
+  const tomorrowIsStale = tomorrowDate <= todayDate;
+
+  if (today && today.text && !todayIsStale) {
+    // ---- TODAY ----
+    const current = pickGroups(today.schedule, groups);
+    const prev = user.lastLoeSchedule;
+    user.lastLoeCheckedAt = nowIso;
+    user.lastLoeError = undefined;
+    // A schedule for another date than the stored one is the new day's: announced in full, without a diff
+    const isNewDay = Boolean(prevDate && prevDate !== currentDate);
+
+    const watchedTextFormatted = formatDaySchedule(current, groups, m.missingInUpdate, lang);
+    // Only a known earlier picture counts: the first one seen (or a failed download) is not a change
+    const imageHash = today.image?.hash;
+    const imageOnlyChanged =
+      Boolean(imageHash && user.lastLoeImageHash && imageHash !== user.lastLoeImageHash) &&
+      Boolean(prev && sameSchedulesForGroups(prev, current, groups));
+    if (imageHash) user.lastLoeImageHash = imageHash;
+
+    if (!prev) {
+      // Baseline snapshot for today (do not spam on first seen unless forceCheck)
+      user.lastLoeSchedule = withDate(current, currentDate);
+      if (forceCheck) {
+        user.lastLoeNotifiedAt = nowIso;
+        notices.push({
+          text: [m.checkedHeadline, ' ', watchedTextFormatted || m.textUnreadable].join('\n'),
+          urgent: true,
+          picture: { item: today, linkLabel: m.pictureLink },
+        });
+      }
+    } else if (!sameSchedulesForGroups(prev, current, groups) || isNewDay || forceCheck || imageOnlyChanged) {
+      // Only a real schedule change gets the "what changed" section; the daily and manual
+      // messages show the full schedule alone.
+      const changesText = forceCheck || isNewDay ? '' : formatScheduleDiff(prev, current, groups, lang);
+      user.lastLoeSchedule = withDate(current, currentDate);
+      user.lastLoeNotifiedAt = nowIso;
+      notices.push({
+        text: [
+          forceCheck
+            ? m.checkedHeadline
+            : isNewDay
+              ? m.todayHeadline
+              : imageOnlyChanged
+                ? m.todayImageChangedHeadline
+                : m.todayChangedHeadline,
+          ' ',
+          changesText ? m.whatChanged(changesText) : '',
+          watchedTextFormatted || m.textUnreadable,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        urgent: forceCheck || scheduleChangeIsUrgent(isNewDay ? undefined : prev, current, groups, now),
+        picture: { item: today, linkLabel: m.pictureLinkToday },
+      });
+    }
+  }
+
+  if (tomorrow && tomorrow.text && !tomorrowIsStale) {
+    // ---- TOMORROW ----
+    user.lastLoeTomorrowCheckedAt = nowIso;
+    user.lastLoeTomorrowError = undefined;
+
+    const tomorrowCurrent = withDate(pickGroups(tomorrow.schedule, groups), tomorrowDate);
+    const hasAnyTomorrowDataForSelectedGroups = Object.keys(tomorrowCurrent.groups).length > 0;
+    const tomorrowPrev = user.lastLoeTomorrowSchedule;
+    const tomorrowImageHash = tomorrow.image?.hash;
+    const tomorrowImageChanged = Boolean(
+      tomorrowImageHash && user.lastLoeTomorrowImageHash && tomorrowImageHash !== user.lastLoeTomorrowImageHash,
+    );
+    if (tomorrowImageHash) user.lastLoeTomorrowImageHash = tomorrowImageHash;
+
+    // A "Tomorrow" for another date than the stored one is new, even if LOE never went without one in between
+    const appeared =
+      user.lastLoeTomorrowStatus !== 'present' ||
+      (tomorrowPrev !== undefined && storedDate(tomorrowPrev, user.lastLoeTomorrowNotifiedAt, 1) !== tomorrowDate);
+    user.lastLoeTomorrowStatus = 'present';
+
+    const tomorrowWatchedTextFormatted = formatDaySchedule(tomorrowCurrent, groups, m.missingInTomorrow, lang);
+    const picture = { item: tomorrow, linkLabel: m.pictureLinkTomorrow };
+
+    // If LOE published "Tomorrow" but there is no data for the user's selected groups,
+    // do not send an "empty" notification like "(Не знайдено в графіку на завтра)".
+    // Still store a snapshot so we can notify later if data for the groups appears.
+    if (!hasAnyTomorrowDataForSelectedGroups) {
+      user.lastLoeTomorrowSchedule = tomorrowCurrent;
+      return notices;
+    }
+
+    if (appeared || forceCheck) {
+      user.lastLoeTomorrowSchedule = tomorrowCurrent;
+      user.lastLoeTomorrowNotifiedAt = nowIso;
+      notices.push({
+        text: [m.tomorrowAppearedHeadline, ' ', tomorrowWatchedTextFormatted || m.textUnreadable].join('\n'),
+        urgent: forceCheck || scheduleChangeIsUrgent(undefined, tomorrowCurrent, groups, now),
+        picture,
+      });
+      return notices;
+    }
+
+    const tomorrowTextChanged = !tomorrowPrev || !sameSchedulesForGroups(tomorrowPrev, tomorrowCurrent, groups);
+    if (tomorrowTextChanged || tomorrowImageChanged) {
+      const tomorrowChangesText = tomorrowPrev ? formatScheduleDiff(tomorrowPrev, tomorrowCurrent, groups, lang) : '';
+      user.lastLoeTomorrowSchedule = tomorrowCurrent;
+      user.lastLoeTomorrowNotifiedAt = nowIso;
+      notices.push({
+        text: [
+          tomorrowTextChanged ? m.tomorrowChangedHeadline : m.tomorrowImageChangedHeadline,
+          ' ',
+          tomorrowChangesText ? m.whatChanged(tomorrowChangesText) : '',
+          tomorrowWatchedTextFormatted || m.textUnreadable,
+        ]
+          .filter(Boolean)
+          .join('\n'),
+        urgent: tomorrowTextChanged && scheduleChangeIsUrgent(tomorrowPrev, tomorrowCurrent, groups, now),
+        picture,
+      });
+      return notices;
+    }
+  }
+
+  if (!tomorrow) {
+    // Tomorrow is not published yet
+    user.lastLoeTomorrowStatus = 'missing';
+  }
+  return notices;
+}
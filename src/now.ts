@@ -0,0 +1,57 @@
+import { formatDuration } from './digest';
+import { Lang, messages } from './i18n';
+import { outagesForGroup } from './reminders';
+import { DaySchedule } from './schedule';
+import { shiftDate, zonedClock, zonedDateString, zonedDateTimeToEpochMs } from './time';
+
+// /now: whether a group has power at this moment, when that changes and what comes after,
+// on the same merged timeline as reminders, so an outage running past midnight continues into tomorrow.
+
+export type GroupPowerStatus =
+  | { group: string; known: false }
+  | {
+      group: string;
+      known: true;
+      powerOn: boolean;
+      until?: number; // when the current state ends; undefined = not within the known schedules
+      nextAt?: number; // the transition after that
+      horizon: number; // end of the last day whose schedule for the group is known
+    };
+
+export function groupPowerStatus(schedules: DaySchedule[], group: string, now: number): GroupPowerStatus {
+  const covered = schedules.filter((s) => s.date && s.groups[group]).map((s) => s.date as string);
+  if (!covered.includes(zonedDateString(now))) return { group, known: false };
+  const horizon = Math.max(...covered.map((date) => zonedDateTimeToEpochMs(shiftDate(date, 1), 0)));
+
+  const outages = outagesForGroup(schedules, group).filter((o) => o.end > now);
+  const current = outages[0] && outages[0].start <= now ? outages[0] : undefined;
+  if (current) return { group, known: true, powerOn: false, until: current.end, nextAt: outages[1]?.start, horizon };
+  return { group, known: true, powerOn: true, until: outages[0]?.start, nextAt: outages[0]?.end, horizon };
+}
+
+// "14:00", or "00:30 завтра" when it is on another Kyiv day than `now`
+function formatAt(at: number, now: number, lang: Lang): string {
+  const clock = zonedClock(at);
+  return zonedDateString(at) === zonedDateString(now) ? clock : `${clock} ${messages(lang).nowTomorrowSuffix}`;
+}
+
+function formatCountdown(at: number, now: number, lang: Lang): string {
+  return formatDuration(Math.max(1, Math.ceil((at - now) / 60000)), lang);
+}
+
+export function formatGroupPowerStatus(status: GroupPowerStatus, now: number, lang: Lang): string {
+  const m = messages(lang);
+  if (!status.known) return m.nowUnknown(status.group);
+  const { group, powerOn, until, nextAt, horizon } = status;
+
+  // The state runs into the day after the last known schedule: it lasts at least until then
+  if (until === undefined || until >= horizon) {
+    return powerOn
+      ? m.nowOnNoOutages(group, formatAt(horizon, now, lang))
+      : m.nowOffAtLeastUntil(group, formatAt(horizon, now, lang));
+  }
+  const next = nextAt !== undefined && nextAt <= horizon ? formatAt(nextAt, now, lang) : undefined;
+  return powerOn
+    ? m.nowOn(group, formatCountdown(until, now, lang), formatAt(until, now, lang), next)
+    : m.nowOff(group, formatCountdown(until, now, lang), formatAt(until, now, lang), next);
+}
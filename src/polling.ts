@@ -0,0 +1,104 @@
+import { formatMinutes } from './schedule';
+import { parseClockMinutes, zonedClock, zonedMinuteOfDay } from './time';
+
+// When to run the next polling cycle. LOE publishes tomorrow's schedule in the evening and revises
+// today's in bursts, so the delay depends on the time of day (Kyiv) and on what was already published:
+//   1. tomorrow is still missing late in the day -> poll fast;
+//   2. tomorrow was published a short while ago -> back off;
+//   3. a configured time-of-day window -> its own range;
+//   4. otherwise the base range.
+
+export type DelayRange = { minMs: number; maxMs: number };
+
+export type PollingWindow = DelayRange & {
+  start: number; // minutes from midnight
+  end: number; // may be smaller than start: the window wraps over midnight
+};
+
+export type PollingPolicy = {
+  base: DelayRange;
+  windows: PollingWindow[];
+  tomorrowMissingFrom: number; // minute of the day from which a missing tomorrow means polling fast
+  tomorrowMissing: DelayRange;
+  afterPublish: DelayRange;
+  afterPublishForMs: number;
+};
+
+export type PollingState = {
+  now: number;
+  tomorrowMissing: boolean; // some source with watching chats has not published tomorrow yet
+  tomorrowPublishedAt?: number; // last time a source's tomorrow schedule appeared
+};
+
+export type PollingDecision = { delayMs: number; reason: string };
+
+function inWindow(start: number, end: number, minute: number): boolean {
+  return start < end ? minute >= start && minute < end : minute >= start || minute < end;
+}
+
+function pick(range: DelayRange, random: () => number): number {
+  return Math.round(range.minMs + random() * (range.maxMs - range.minMs));
+}
+
+export function nextPollingDelay(
+  policy: PollingPolicy,
+  s: PollingState,
+  random: () => number = Math.random,
+): PollingDecision {
+  const minute = zonedMinuteOfDay(s.now);
+  const lateForTomorrow = minute >= policy.tomorrowMissingFrom;
+  if (s.tomorrowMissing && lateForTomorrow) {
+    return {
+      delayMs: pick(policy.tomorrowMissing, random),
+      reason: `tomorrow's schedule is not published yet (after ${formatMinutes(policy.tomorrowMissingFrom)})`,
+    };
+  }
+  if (s.tomorrowPublishedAt !== undefined && s.now - s.tomorrowPublishedAt < policy.afterPublishForMs) {
+    return {
+      delayMs: pick(policy.afterPublish, random),
+      reason: `tomorrow's schedule was published at ${zonedClock(s.tomorrowPublishedAt)}, backing off`,
+    };
+  }
+
+  const window = policy.windows.find((w) => inWindow(w.start, w.end, minute));
+  const decision = window
+    ? { delayMs: pick(window, random), reason: `window ${formatMinutes(window.start)}-${formatMinutes(window.end)}` }
+    : { delayMs: pick(policy.base, random), reason: 'base interval' };
+
+  // Don't sleep past the start of a period that polls faster: wake up when it begins instead.
+  const starts = policy.windows.filter((w) => w.minMs < decision.delayMs).map((w) => w.start);
+  if (s.tomorrowMissing && policy.tomorrowMissing.minMs < decision.delayMs) starts.push(policy.tomorrowMissingFrom);
+  for (const start of starts) {
+    const untilStartMs = (((start - minute + 24 * 60) % (24 * 60)) || 24 * 60) * 60 * 1000;
+    if (untilStartMs < decision.delayMs) {
+      decision.delayMs = untilStartMs;
+      decision.reason += `, shortened to ${formatMinutes(start)} when faster polling starts`;
+    }
+  }
+  return decision;
+}
+
+// "5-10" or "10" (minutes) -> delay range
+export function parseDelayRange(raw: string): DelayRange | null {
+  const m = raw.trim().match(/^(\d+(?:\.\d+)?)(?:\s*-\s*(\d+(?:\.\d+)?))?$/);
+  if (!m) return null;
+  const minMs = Number(m[1]) * 60 * 1000;
+  const maxMs = Number(m[2] ?? m[1]) * 60 * 1000;
+  if (minMs <= 0 || maxMs < minMs) return null;
+  return { minMs, maxMs };
+}
+
+// "18:00-23:00=5-10, 00:00-06:00=30-45": Kyiv time ranges with the delay in minutes
+export function parsePollingWindows(raw: string): PollingWindow[] | null {
+  const out: PollingWindow[] = [];
+  for (const part of raw.split(/[,;]/).map((p) => p.trim()).filter(Boolean)) {
+    const m = part.match(/^([\d:.]+)\s*-\s*([\d:.]+)\s*=\s*(.+)$/);
+    if (!m) return null;
+    const start = parseClockMinutes(m[1]);
+    const end = parseClockMinutes(m[2]);
+    const range = parseDelayRange(m[3]);
+    if (start === null || end === null || start === end || !range) return null;
+    out.push({ start, end, ...range });
+  }
+  return out;
+}
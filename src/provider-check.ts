@@ -0,0 +1,64 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { fetchErrorCategory, findProvider } from './providers';
+
+// Feeds recorded API responses to each provider's parseResponse and compares the result with the
+// recorded expectation. fixtures/providers/<provider id>/<name>.json is a raw response and
+// <name>.expected.json either the parsed today/tomorrow items or { "error": <FetchErrorCategory> }.
+//
+//   npm test                        -- fails on any difference
+//   UPDATE_FIXTURES=1 npm test      -- rewrites the .expected.json files after a deliberate change
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'providers');
+const EXPECTED_SUFFIX = '.expected.json';
+
+function parseFixture(providerId: string, data: unknown): unknown {
+  const provider = findProvider(providerId);
+  if (!provider) throw new Error(`Unknown provider: ${providerId}`);
+  try {
+    return provider.parseResponse(data);
+  } catch (err) {
+    const category = fetchErrorCategory(err);
+    if (!category) throw err;
+    return { error: category };
+  }
+}
+
+async function main(): Promise<void> {
+  const update = Boolean(process.env.UPDATE_FIXTURES);
+  let checked = 0;
+  let failed = 0;
+  for (const providerId of (await fs.readdir(FIXTURES_DIR)).sort()) {
+    const dir = path.join(FIXTURES_DIR, providerId);
+    const responses = (await fs.readdir(dir)).filter((name) => name.endsWith('.json') && !name.endsWith(EXPECTED_SUFFIX));
+    for (const name of responses.sort()) {
+      const label = `${providerId}/${name}`;
+      const expectedPath = path.join(dir, name.replace(/\.json$/, EXPECTED_SUFFIX));
+      // Round-tripped through JSON so it compares like the stored expectation
+      const actual = JSON.stringify(parseFixture(providerId, JSON.parse(await fs.readFile(path.join(dir, name), 'utf8'))), null, 2);
+      checked += 1;
+
+      if (update) {
+        await fs.writeFile(expectedPath, actual + '\n', 'utf8');
+        console.log(`${label}: updated`);
+        continue;
+      }
+      const expected = JSON.stringify(JSON.parse(await fs.readFile(expectedPath, 'utf8')), null, 2);
+      if (actual === expected) {
+        console.log(`✓ ${label}`);
+      } else {
+        failed += 1;
+        console.error(`✗ ${label}: parsed result differs from ${path.basename(expectedPath)}\nactual:\n${actual}`);
+      }
+    }
+  }
+  if (failed > 0) {
+    console.error(`${failed} of ${checked} recorded responses differ; run with UPDATE_FIXTURES=1 if the change is intended`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err: any) => {
+  console.error('Provider check failed:', err?.message ?? err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,90 @@
+import { createHash } from 'node:crypto';
+import { ScheduleFetchError } from './fetching';
+import { FetchLike, ParsedScheduleResponse, ScheduleDayItem, ScheduleImage, ScheduleSnapshot } from './types';
+
+export const BROWSER_USER_AGENT =
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120 Safari/537.36';
+
+// Telegram does not accept photos over 10 MB
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+
+export function snapshotContentHash(parsed: ParsedScheduleResponse): string {
+  return createHash('sha256')
+    .update(
+      JSON.stringify([
+        parsed.today?.text,
+        parsed.today?.imageUrl,
+        parsed.today?.image?.hash,
+        parsed.tomorrow?.text,
+        parsed.tomorrow?.imageUrl,
+        parsed.tomorrow?.image?.hash,
+      ]),
+    )
+    .digest('hex');
+}
+
+// The picture can change while the URL and the text stay the same, so it is downloaded on every
+// full fetch and identified by its content. A failed download only drops the picture.
+async function downloadImage(
+  item: ScheduleDayItem | undefined,
+  headers: Record<string, string>,
+  fetchImpl: FetchLike,
+): Promise<ScheduleImage | undefined> {
+  if (!item?.imageUrl) return undefined;
+  try {
+    const res = await fetchImpl(item.imageUrl, { headers });
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    const bytes = Buffer.from(await res.arrayBuffer());
+    if (bytes.length === 0 || bytes.length > MAX_IMAGE_BYTES) throw new Error(`unexpected size ${bytes.length}`);
+    return { hash: createHash('sha256').update(bytes).digest('hex'), bytes };
+  } catch (err: any) {
+    console.error(`Failed to download schedule image ${item.imageUrl}:`, err?.message ?? err);
+    return undefined;
+  }
+}
+
+// GET a JSON document, revalidating against the previous snapshot with ETag / Last-Modified.
+// Returns the previous snapshot (with a fresh fetchedAt) when the server answers 304.
+export async function fetchJsonSnapshot(
+  providerId: string,
+  sourceUrl: string,
+  headers: Record<string, string>,
+  parse: (data: unknown) => ParsedScheduleResponse,
+  previous: ScheduleSnapshot | undefined,
+  fetchImpl: FetchLike,
+  sourceLabel: string,
+): Promise<ScheduleSnapshot> {
+  const requestHeaders = { ...headers };
+  const canRevalidate = previous && previous.providerId === providerId && previous.sourceUrl === sourceUrl;
+  if (canRevalidate && previous.etag) requestHeaders['if-none-match'] = previous.etag;
+  if (canRevalidate && previous.lastModified) requestHeaders['if-modified-since'] = previous.lastModified;
+
+  const res = await fetchImpl(sourceUrl, { headers: requestHeaders });
+  if (res.status === 304 && canRevalidate) {
+    return { ...previous, fetchedAt: Date.now() };
+  }
+  if (!res.ok) {
+    throw new ScheduleFetchError('http', `HTTP ${res.status} when calling ${sourceLabel}`, res.status);
+  }
+
+  let data: unknown;
+  try {
+    data = await res.json();
+  } catch (err: any) {
+    throw new ScheduleFetchError('invalid_response', `${sourceLabel} returned invalid JSON: ${err?.message ?? err}`);
+  }
+  const parsed = parse(data);
+  const imageHeaders = { 'user-agent': headers['user-agent'] ?? BROWSER_USER_AGENT };
+  for (const item of [parsed.today, parsed.tomorrow]) {
+    if (item) item.image = await downloadImage(item, imageHeaders, fetchImpl);
+  }
+  return {
+    providerId,
+    sourceUrl,
+    ...parsed,
+    fetchedAt: Date.now(),
+    contentHash: snapshotContentHash(parsed),
+    etag: res.headers.get('etag') ?? undefined,
+    lastModified: res.headers.get('last-modified') ?? undefined,
+  };
+}
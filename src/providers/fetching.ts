@@ -0,0 +1,133 @@
+import { FetchLike } from './types';
+
+// Network side of the providers: request timeouts, retries with exponential backoff and a circuit
+// breaker, with every failure reduced to one of a few categories for logs and /status.
+
+export type FetchErrorCategory = 'timeout' | 'network' | 'http' | 'invalid_response' | 'circuit_open';
+
+export class ScheduleFetchError extends Error {
+  constructor(
+    readonly category: FetchErrorCategory,
+    message: string,
+    readonly status?: number,
+  ) {
+    super(message);
+    this.name = 'ScheduleFetchError';
+  }
+}
+
+export function fetchErrorCategory(err: unknown): FetchErrorCategory | undefined {
+  return err instanceof ScheduleFetchError ? err.category : undefined;
+}
+
+export type RetryOptions = {
+  timeoutMs: number;
+  retries: number; // extra attempts after the first one
+  backoffMs: number; // delay before the first retry; doubled for every next one
+};
+
+const MAX_BACKOFF_MS = 60 * 1000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// 408, 429 and 5xx are worth another try; other statuses won't change by asking again.
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Full jitter, so several bots behind the same outage don't retry in lockstep.
+function backoffDelayMs(options: RetryOptions, retry: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, options.backoffMs * 2 ** retry);
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+// Statuses whose Response cannot be constructed with a body
+const NULL_BODY_STATUSES = [101, 204, 205, 304];
+
+// The deadline covers the whole exchange: the body is read here, under the same timer, and handed
+// back as a buffered Response. A server that sends headers and then stalls the body can't hang the caller.
+async function fetchWithTimeout(
+  fetchImpl: FetchLike,
+  url: string,
+  init: { headers?: Record<string, string> } | undefined,
+  timeoutMs: number,
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetchImpl(url, { ...init, signal: controller.signal });
+    const body = NULL_BODY_STATUSES.includes(res.status) ? null : await res.arrayBuffer();
+    return new Response(body, { status: res.status, statusText: res.statusText, headers: res.headers });
+  } catch (err: any) {
+    if (controller.signal.aborted) throw new ScheduleFetchError('timeout', `no complete response from ${url} within ${timeoutMs}ms`);
+    throw new ScheduleFetchError('network', `request to ${url} failed: ${err?.cause?.code ?? err?.message ?? err}`);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Wraps `fetchImpl` so every request times out and is retried on network errors and retryable
+// statuses. After the last attempt a bad response is returned as is; the caller decides what it means.
+export function withRetries(fetchImpl: FetchLike, options: RetryOptions): FetchLike {
+  return async (url, init) => {
+    for (let attempt = 0; ; attempt++) {
+      const last = attempt >= options.retries;
+      try {
+        const res = await fetchWithTimeout(fetchImpl, url, init, options.timeoutMs);
+        if (last || !isRetryableStatus(res.status)) return res;
+        console.warn(`HTTP ${res.status} from ${url}, retrying (${attempt + 1}/${options.retries})`);
+      } catch (err: any) {
+        if (last) throw err;
+        console.warn(`${err?.message ?? err}, retrying (${attempt + 1}/${options.retries})`);
+      }
+      await sleep(backoffDelayMs(options, attempt));
+    }
+  };
+}
+
+export type CircuitBreakerOptions = {
+  failureThreshold: number; // consecutive failures that open the circuit
+  cooldownMs: number; // first pause; doubled each time a trial request fails, up to maxCooldownMs
+  maxCooldownMs: number;
+};
+
+export type CircuitBreaker = {
+  // Runs `request` unless the circuit is open, in which case it throws a 'circuit_open' error.
+  run<T>(request: () => Promise<T>): Promise<T>;
+};
+
+// Closed: requests go through. Open: requests fail immediately until the cooldown ends.
+// Then one trial request decides whether the circuit closes or stays open for longer.
+export function createCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let failures = 0;
+  let cooldownMs = options.cooldownMs;
+  let openUntil: number | undefined;
+
+  return {
+    async run<T>(request: () => Promise<T>): Promise<T> {
+      if (openUntil !== undefined && Date.now() < openUntil) {
+        throw new ScheduleFetchError(
+          'circuit_open',
+          `${name} is failing, requests paused until ${new Date(openUntil).toISOString()}`,
+        );
+      }
+      const trial = openUntil !== undefined;
+      try {
+        const result = await request();
+        if (trial) console.log(`${name}: trial request succeeded, circuit closed`);
+        failures = 0;
+        cooldownMs = options.cooldownMs;
+        openUntil = undefined;
+        return result;
+      } catch (err) {
+        failures += 1;
+        if (trial) cooldownMs = Math.min(options.maxCooldownMs, cooldownMs * 2);
+        if (trial || failures >= options.failureThreshold) {
+          openUntil = Date.now() + cooldownMs;
+          console.warn(`${name}: ${failures} failures in a row, pausing requests for ${Math.round(cooldownMs / 1000)}s`);
+        }
+        throw err;
+      }
+    },
+  };
+}
@@ -0,0 +1,18 @@
+import { loeProvider } from './loe';
+import { ScheduleProvider } from './types';
+
+export * from './types';
+export * from './fetching';
+
+export const SCHEDULE_PROVIDERS: readonly ScheduleProvider[] = [loeProvider];
+
+export const DEFAULT_PROVIDER_ID = loeProvider.id;
+
+export function findProvider(id: string | undefined): ScheduleProvider | undefined {
+  return SCHEDULE_PROVIDERS.find((p) => p.id === id);
+}
+
+// Chats without an explicit /region (everyone before providers existed) use LOE.
+export function providerFor(id: string | undefined): ScheduleProvider {
+  return findProvider(id) ?? findProvider(DEFAULT_PROVIDER_ID)!;
+}
@@ -0,0 +1,117 @@
+import { load } from 'cheerio';
+import { normalizeMultilineText, parseDaySchedule } from '../schedule';
+import { BROWSER_USER_AGENT, fetchJsonSnapshot } from './common';
+import { ScheduleFetchError } from './fetching';
+import { ParsedScheduleResponse, ScheduleDayItem, ScheduleProvider } from './types';
+
+// Львівобленерго (LOE): api.loe.lviv.ua publishes "Today" / "Tomorrow" menu items
+// whose rawHtml contains the schedule text and whose imageUrl is the schedule picture.
+
+type LoeMenuItem = {
+  id: number;
+  name: string;
+  slug: string;
+  imageUrl: string;
+  description: string;
+  rawHtml: string;
+  rawMobileHtml: string;
+};
+
+type LoeMenu = {
+  id: number;
+  name: string;
+  type: string;
+  menuItems: LoeMenuItem[];
+};
+
+type LoeMenusResponse = {
+  'hydra:member'?: LoeMenu[];
+};
+
+const LOE_GROUPS = [
+  '1.1',
+  '1.2',
+  '2.1',
+  '2.2',
+  '3.1',
+  '3.2',
+  '4.1',
+  '4.2',
+  '5.1',
+  '5.2',
+  '6.1',
+  '6.2',
+] as const;
+
+function absoluteLoeMediaUrl(pathname: string): string {
+  if (!pathname) return '';
+  if (/^https?:\/\//i.test(pathname)) return pathname;
+  const p = pathname.startsWith('/') ? pathname : `/${pathname}`;
+  return `https://api.loe.lviv.ua${p}`;
+}
+
+function textFromRawHtml(rawHtml: string): string {
+  if (!rawHtml) return '';
+  const $ = load(rawHtml);
+  return normalizeMultilineText($.text());
+}
+
+function loeDayItem(item: LoeMenuItem | undefined): ScheduleDayItem | undefined {
+  if (!item) return undefined;
+  const text = textFromRawHtml(item.rawMobileHtml || item.rawHtml);
+  return {
+    text,
+    imageUrl: absoluteLoeMediaUrl(item.imageUrl || item.slug),
+    schedule: parseDaySchedule(text),
+  };
+}
+
+function loeSourceUrl(): string {
+  const defaultType = 'photo-grafic';
+  const type = String(process.env.LOE_MENU_TYPE ?? defaultType);
+  return String(
+    process.env.LOE_MENUS_URL ?? `https://api.loe.lviv.ua/api/menus?page=1&type=${encodeURIComponent(type)}`,
+  );
+}
+
+function isLoeMenuItem(item: any): item is LoeMenuItem {
+  return (
+    Boolean(item) &&
+    typeof item.name === 'string' &&
+    ['imageUrl', 'slug', 'rawHtml', 'rawMobileHtml'].every((key) => item[key] == null || typeof item[key] === 'string')
+  );
+}
+
+function parseLoeMenusResponse(data: unknown): ParsedScheduleResponse {
+  const menu = (data as LoeMenusResponse | null)?.['hydra:member']?.[0];
+  if (!menu || !Array.isArray(menu.menuItems)) {
+    throw new ScheduleFetchError('invalid_response', 'LOE API response did not contain hydra:member[0].menuItems');
+  }
+  if (!menu.menuItems.every(isLoeMenuItem)) {
+    throw new ScheduleFetchError('invalid_response', 'LOE API response has menu items of an unexpected shape');
+  }
+  return {
+    title: menu.name,
+    today: loeDayItem(menu.menuItems.find((item: LoeMenuItem) => item.name === 'Today')),
+    tomorrow: loeDayItem(menu.menuItems.find((item: LoeMenuItem) => item.name === 'Tomorrow')),
+  };
+}
+
+export const loeProvider: ScheduleProvider = {
+  id: 'loe',
+  name: 'Львівобленерго (Львівська область)',
+  groups: LOE_GROUPS,
+  sourceUrl: loeSourceUrl,
+  parseResponse: parseLoeMenusResponse,
+  imageUrl: absoluteLoeMediaUrl,
+  fetchSnapshot: (previous, fetchImpl = fetch) =>
+    fetchJsonSnapshot(
+      'loe',
+      loeSourceUrl(),
+      { accept: 'application/ld+json,application/json;q=0.9,*/*;q=0.8', 'user-agent': BROWSER_USER_AGENT },
+      parseLoeMenusResponse,
+      previous,
+      fetchImpl,
+      'LOE API',
+    ),
+};
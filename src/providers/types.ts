@@ -0,0 +1,51 @@
+import { DaySchedule } from '../schedule';
+
+export type FetchLike = (
+  url: string,
+  init?: { headers?: Record<string, string>; signal?: AbortSignal },
+) => Promise<Response>;
+
+// The downloaded schedule picture; `hash` identifies it across snapshots and chats.
+export type ScheduleImage = {
+  hash: string;
+  bytes: Buffer;
+};
+
+export type ScheduleDayItem = {
+  text: string;
+  imageUrl: string;
+  schedule: DaySchedule;
+  image?: ScheduleImage; // missing when there is no picture or it could not be downloaded
+};
+
+// A published today/tomorrow pair, already parsed, as seen by one provider.
+export type ScheduleSnapshot = {
+  providerId: string;
+  title: string;
+  sourceUrl: string;
+  today?: ScheduleDayItem;
+  tomorrow?: ScheduleDayItem;
+  fetchedAt: number;
+  // Hash of the parts we actually use, so volatile fields elsewhere in the response don't count as changes
+  contentHash: string;
+  etag?: string;
+  lastModified?: string;
+};
+
+export type ParsedScheduleResponse = {
+  title: string;
+  today?: ScheduleDayItem;
+  tomorrow?: ScheduleDayItem;
+};
+
+export type ScheduleProvider = {
+  id: string;
+  name: string; // shown to users in /region
+  groups: readonly string[];
+  sourceUrl(): string;
+  // Pure: turns a decoded API response into schedules, so it can be fed recorded fixtures.
+  parseResponse(data: unknown): ParsedScheduleResponse;
+  imageUrl(pathname: string): string;
+  // `fetchImpl` is injectable for the same reason; it defaults to the global fetch.
+  fetchSnapshot(previous?: ScheduleSnapshot, fetchImpl?: FetchLike): Promise<ScheduleSnapshot>;
+};
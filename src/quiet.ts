@@ -0,0 +1,88 @@
+import { Lang, messages } from './i18n';
+import { DaySchedule, diffGroupSchedule, formatMinutes, OutageInterval } from './schedule';
+import { parseClockMinutes, zonedDateTimeToEpochMs, zonedMinuteOfDay } from './time';
+
+// Per-chat quiet hours, in Kyiv local time.
+// 'silent' still delivers right away but without a sound; 'hold' collects messages and sends
+// them as one message when the window ends.
+
+export type QuietMode = 'silent' | 'hold';
+
+export type QuietHours = {
+  start: number; // minutes from midnight
+  end: number; // may be smaller than start: "23:00-07:00" wraps over midnight
+  mode: QuietMode;
+};
+
+export type HeldMessage = { at: string; text: string };
+
+// How far ahead a schedule change still counts as urgent enough to break through quiet hours.
+export const URGENT_WINDOW_MS = 60 * 60 * 1000;
+
+const TELEGRAM_MESSAGE_LIMIT = 4096;
+
+// "23:00-07:00", "23-7", "23:00 – 07:00"
+export function parseQuietRange(raw: string): { start: number; end: number } | null {
+  const parts = raw.split(/\s*[-–—]\s*/);
+  if (parts.length !== 2) return null;
+  const start = parseClockMinutes(parts[0]);
+  const end = parseClockMinutes(parts[1]);
+  if (start === null || end === null || start === end) return null;
+  return { start, end };
+}
+
+export function formatQuietHours(q: QuietHours): string {
+  return `${formatMinutes(q.start)}–${formatMinutes(q.end)}`;
+}
+
+export function isQuietAt(q: QuietHours, epochMs: number): boolean {
+  const minute = zonedMinuteOfDay(epochMs);
+  return q.start < q.end ? minute >= q.start && minute < q.end : minute >= q.start || minute < q.end;
+}
+
+// How an automatic notification goes out at `epochMs`: right away, without a sound, or held until the window ends.
+export function quietDelivery(q: QuietHours | undefined, urgent: boolean, epochMs: number): 'send' | QuietMode {
+  if (!q || urgent || !isQuietAt(q, epochMs)) return 'send';
+  return q.mode;
+}
+
+function touchesWindow(date: string | undefined, i: OutageInterval, from: number, to: number): boolean {
+  if (!date) return false;
+  return zonedDateTimeToEpochMs(date, i.start) < to && zonedDateTimeToEpochMs(date, i.end) > from;
+}
+
+// True when anything the user did not know yet (added, removed or moved outages) falls
+// within the next `windowMs`. Without a previous snapshot every interval counts as new.
+export function scheduleChangeIsUrgent(
+  prev: DaySchedule | undefined,
+  next: DaySchedule,
+  groups: string[],
+  now: number,
+  windowMs: number = URGENT_WINDOW_MS,
+): boolean {
+  const to = now + windowMs;
+  return groups.some((g) =>
+    diffGroupSchedule(prev?.groups[g], next.groups[g]).some((c) => {
+      if (c.kind === 'added') return touchesWindow(next.date, c.interval, now, to);
+      if (c.kind === 'removed') return touchesWindow(prev?.date, c.interval, now, to);
+      return touchesWindow(prev?.date, c.from, now, to) || touchesWindow(next.date, c.to, now, to);
+    }),
+  );
+}
+
+// Collapse everything held during quiet hours into a single message; the newest messages win
+// when it would not fit into one Telegram message.
+export function collapseHeldMessages(held: HeldMessage[], lang: Lang): string {
+  const header = messages(lang).heldHeader;
+  const separator = '\n\n— — —\n\n';
+  const parts: string[] = [];
+  let length = header.length + 100;
+  for (const m of [...held].reverse()) {
+    if (length + m.text.length + separator.length > TELEGRAM_MESSAGE_LIMIT) break;
+    parts.unshift(m.text);
+    length += m.text.length + separator.length;
+  }
+  const lines = [header];
+  if (parts.length < held.length) lines.push(messages(lang).heldSkipped(held.length - parts.length));
+  return [...lines, '', parts.join(separator)].join('\n');
+}
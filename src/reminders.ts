@@ -0,0 +1,101 @@
+import { Lang, messages } from './i18n';
+import { DaySchedule, OutageInterval } from './schedule';
+import { zonedClock, zonedDateTimeToEpochMs } from './time';
+
+export const MAX_REMIND_LEAD_MINUTES = 12 * 60;
+
+export type DueReminder = {
+  key: string; // stable id, persisted so a reminder is sent once even across restarts
+  fireAt: number;
+  text: string;
+};
+
+export type AbsoluteOutage = { start: number; end: number };
+
+// Today's "з 22:00 до 24:00" and tomorrow's "з 00:00 до 02:30" are a single outage,
+// so intervals from all snapshots are put on one timeline and touching ones are merged.
+export function outagesForGroup(schedules: DaySchedule[], group: string): AbsoluteOutage[] {
+  const all: AbsoluteOutage[] = [];
+  for (const schedule of schedules) {
+    const g = schedule.groups[group];
+    if (!schedule.date || !g) continue;
+    const date = schedule.date;
+    all.push(
+      ...g.intervals.map((i: OutageInterval) => ({
+        start: zonedDateTimeToEpochMs(date, i.start),
+        end: zonedDateTimeToEpochMs(date, i.end),
+      })),
+    );
+  }
+  all.sort((a, b) => a.start - b.start);
+
+  const merged: AbsoluteOutage[] = [];
+  for (const o of all) {
+    const last = merged[merged.length - 1];
+    if (last && o.start <= last.end) last.end = Math.max(last.end, o.end);
+    else merged.push({ ...o });
+  }
+  return merged;
+}
+
+function leadText(lead: number, lang: Lang): string {
+  return lead === 0 ? messages(lang).leadNow : messages(lang).leadIn(lead);
+}
+
+// Reminders whose fire time fell into (now - graceMs, now]. Older ones are dropped silently:
+// after a long downtime a stale "in 15 minutes" message is worse than none.
+export function collectDueReminders(
+  schedules: DaySchedule[],
+  groups: string[],
+  leadMinutes: number[],
+  now: number,
+  graceMs: number,
+  lang: Lang,
+): DueReminder[] {
+  const m = messages(lang);
+  const out: DueReminder[] = [];
+  for (const group of groups) {
+    for (const outage of outagesForGroup(schedules, group)) {
+      const from = zonedClock(outage.start);
+      const to = zonedClock(outage.end);
+      for (const lead of leadMinutes) {
+        const offAt = outage.start - lead * 60000;
+        if (offAt <= now && offAt > now - graceMs) {
+          out.push({
+            key: `off|${group}|${outage.start}|${lead}`,
+            fireAt: offAt,
+            text: m.reminderOff(group, leadText(lead, lang), from, to),
+          });
+        }
+        const onAt = outage.end - lead * 60000;
+        if (onAt <= now && onAt > now - graceMs && onAt > outage.start) {
+          out.push({
+            key: `on|${group}|${outage.end}|${lead}`,
+            fireAt: onAt,
+            text: m.reminderOn(group, leadText(lead, lang), to),
+          });
+        }
+      }
+    }
+  }
+  return out.sort((a, b) => a.fireAt - b.fireAt);
+}
+
+export function parseRemindLeadMinutes(raw: string): number[] | null {
+  const tokens = raw.split(/[\s,;]+/).filter(Boolean);
+  if (tokens.length === 0) return null;
+  const out: number[] = [];
+  for (const t of tokens) {
+    if (!/^\d+$/.test(t)) return null;
+    const n = Number(t);
+    if (n > MAX_REMIND_LEAD_MINUTES) return null;
+    if (!out.includes(n)) out.push(n);
+  }
+  return out.sort((a, b) => b - a);
+}
+
+// Keys embed the event instant; anything older than a couple of days can be forgotten.
+export function pruneReminderKeys(keys: string[], now: number): string[] {
+  const keepAfter = now - 2 * 24 * 60 * 60 * 1000;
+  return keys.filter((k) => Number(k.split('|')[2]) > keepAfter);
+}
@@ -0,0 +1,66 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { providerFor } from './providers';
+import { replay, ReplayedMessage } from './replay';
+
+// Replays every scenario under fixtures/replay and compares the messages with the scenario's
+// expected.json. A scenario is a directory with `responses/*.json` (recorded LOE `menus` responses,
+// named by Kyiv check time); all of them use fixtures/replay/chats.json.
+//
+//   npm test                        -- fails on any difference
+//   UPDATE_FIXTURES=1 npm test      -- rewrites expected.json after a deliberate change
+
+const FIXTURES_DIR = path.join(__dirname, '..', 'fixtures', 'replay');
+
+function describeMessage(msg: ReplayedMessage | undefined): string {
+  if (!msg) return '(no message)';
+  return `${msg.file} → ${msg.chatId}${msg.urgent ? ' (urgent)' : ''}\n${msg.text.replace(/^/gm, '   ')}`;
+}
+
+// Index and both sides of the first differing message, or undefined when the lists are equal
+function firstDifference(actual: ReplayedMessage[], expected: ReplayedMessage[]): string | undefined {
+  for (let i = 0; i < Math.max(actual.length, expected.length); i++) {
+    if (JSON.stringify(actual[i]) === JSON.stringify(expected[i])) continue;
+    return [`message #${i + 1}`, 'expected:', describeMessage(expected[i]), 'actual:', describeMessage(actual[i])].join('\n');
+  }
+  return undefined;
+}
+
+async function main(): Promise<void> {
+  const update = Boolean(process.env.UPDATE_FIXTURES);
+  const scenarios = (await fs.readdir(FIXTURES_DIR, { withFileTypes: true })).filter((e) => e.isDirectory()).map((e) => e.name);
+  let failed = 0;
+  for (const scenario of scenarios.sort()) {
+    const dir = path.join(FIXTURES_DIR, scenario);
+    const expectedPath = path.join(dir, 'expected.json');
+    const actual = await replay({
+      dir: path.join(dir, 'responses'),
+      provider: providerFor('loe'),
+      chatsPath: path.join(FIXTURES_DIR, 'chats.json'),
+      log: () => undefined,
+    });
+
+    if (update) {
+      await fs.writeFile(expectedPath, JSON.stringify(actual, null, 2) + '\n', 'utf8');
+      console.log(`${scenario}: wrote ${actual.length} messages`);
+      continue;
+    }
+    const expected: ReplayedMessage[] = JSON.parse(await fs.readFile(expectedPath, 'utf8'));
+    const difference = firstDifference(actual, expected);
+    if (difference) {
+      failed += 1;
+      console.error(`✗ ${scenario}: ${difference}`);
+    } else {
+      console.log(`✓ ${scenario} (${actual.length} messages)`);
+    }
+  }
+  if (failed > 0) {
+    console.error(`${failed} of ${scenarios.length} scenarios differ; run with UPDATE_FIXTURES=1 if the change is intended`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch((err: any) => {
+  console.error('Replay check failed:', err?.message ?? err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,173 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { findProvider, providerFor, ScheduleProvider, ScheduleSnapshot } from './providers';
+import { snapshotContentHash } from './providers/common';
+import { evaluateChatSnapshot, EvaluatedSnapshot, evaluationKey, sameEvaluation } from './notifications';
+import { migrateChats, storedSchemaVersion } from './migrations';
+import { quietDelivery } from './quiet';
+import { normalizeUserState, UserState } from './state';
+import { formatZonedDateTime, zonedDateTimeToEpochMs } from './time';
+
+// Offline replay: feeds recorded schedule API responses, in file name order, through the same
+// parsing and today/tomorrow change logic as the polling cycle, for a set of simulated chats,
+// and prints the messages that would be sent. Nothing goes to Telegram and no state is written.
+//
+//   npm run replay -- <dir> [--provider loe] [--chats chats.json] [--out messages.json]
+
+const USAGE = 'Usage: node dist/replay.js <dir with recorded responses> [--provider id] [--chats file.json] [--out file.json]';
+
+export type ReplayOptions = {
+  dir: string;
+  provider: ScheduleProvider;
+  chatsPath?: string;
+  outPath?: string;
+  log?: (line: string) => void; // console.log by default
+};
+
+export type ReplayedMessage = {
+  at: string; // simulated check time, ISO
+  file: string;
+  chatId: string;
+  urgent: boolean;
+  delivery: 'send' | 'silent' | 'hold'; // what quiet hours would do with it
+  duplicate: boolean; // same text as the previous message to this chat
+  text: string;
+};
+
+function parseArgs(argv: string[]): ReplayOptions {
+  let dir: string | undefined;
+  let providerId: string | undefined;
+  let chatsPath: string | undefined;
+  let outPath: string | undefined;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--provider') providerId = argv[++i];
+    else if (arg === '--chats') chatsPath = argv[++i];
+    else if (arg === '--out') outPath = argv[++i];
+    else if (!arg.startsWith('--') && !dir) dir = arg;
+    else throw new Error(`Unexpected argument: ${arg}`);
+  }
+  if (!dir) throw new Error('The directory with recorded responses is required');
+  const provider = providerId === undefined ? providerFor(undefined) : findProvider(providerId);
+  if (!provider) throw new Error(`Unknown provider: ${providerId}`);
+  return { dir, provider, chatsPath, outPath };
+}
+
+// "2024-11-20T18-05.json", "menus_2024-11-20_18-05-30.json": Kyiv time from the name, otherwise the file's mtime.
+const RECORDED_AT_RE = /(\d{4}-\d{2}-\d{2})[T_ ](\d{2})[-:]?(\d{2})(?:[-:]?(\d{2}))?/;
+
+async function recordedAt(filePath: string): Promise<number> {
+  const m = RECORDED_AT_RE.exec(path.basename(filePath));
+  if (m) return zonedDateTimeToEpochMs(m[1], Number(m[2]) * 60 + Number(m[3])) + Number(m[4] ?? 0) * 1000;
+  return (await fs.stat(filePath)).mtimeMs;
+}
+
+// A copy of label-state.json, or a map of chat id -> chat state. Without a file there is one chat per group.
+async function loadChats(provider: ScheduleProvider, chatsPath: string | undefined): Promise<Record<string, UserState>> {
+  if (!chatsPath) {
+    return Object.fromEntries(
+      provider.groups.map((g) => [`group-${g}`, normalizeUserState({ providerId: provider.id, groups: [g], watching: true })]),
+    );
+  }
+  const parsed = JSON.parse(await fs.readFile(chatsPath, 'utf8'));
+  const raw = parsed?.users && typeof parsed.users === 'object' ? parsed.users : parsed;
+  // Copies of older state files are upgraded the way the bot would load them
+  migrateChats(raw ?? {}, storedSchemaVersion(parsed));
+  const chats: Record<string, UserState> = {};
+  for (const [chatId, u] of Object.entries(raw ?? {})) {
+    const user = normalizeUserState(u);
+    // Same selection as the polling cycle
+    if (user.watching && user.groups?.length && providerFor(user.providerId) === provider) chats[chatId] = user;
+  }
+  return chats;
+}
+
+export async function replay(options: ReplayOptions): Promise<ReplayedMessage[]> {
+  const { provider } = options;
+  const log = options.log ?? console.log;
+  const chats = await loadChats(provider, options.chatsPath);
+  const files: { file: string; name: string; at: number }[] = [];
+  for (const name of await fs.readdir(options.dir)) {
+    if (!name.endsWith('.json')) continue;
+    const file = path.join(options.dir, name);
+    files.push({ file, name, at: await recordedAt(file) });
+  }
+  // Check order, so names without a timestamp (mtime) land where they were recorded; ties go by name
+  files.sort((a, b) => a.at - b.at || (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
+  log(`Replaying ${files.length} responses for ${Object.keys(chats).length} chats (${provider.id})`);
+
+  const out: ReplayedMessage[] = [];
+  const lastText: Record<string, string> = {};
+  let lastEvaluated: EvaluatedSnapshot | undefined;
+  for (const { file, name, at } of files) {
+    log(`\n── ${formatZonedDateTime(at)} · ${name}`);
+
+    let snapshot: ScheduleSnapshot;
+    try {
+      const parsed = provider.parseResponse(JSON.parse(await fs.readFile(file, 'utf8')));
+      snapshot = { providerId: provider.id, sourceUrl: file, ...parsed, fetchedAt: at, contentHash: snapshotContentHash(parsed) };
+    } catch (err: any) {
+      log(`   fetch would fail: ${err?.message ?? err}`);
+      continue;
+    }
+
+    const key = evaluationKey(snapshot, at);
+    if (sameEvaluation(lastEvaluated, key)) {
+      log('   schedule unchanged, per-chat checks skipped');
+      continue;
+    }
+    lastEvaluated = key;
+
+    let sent = 0;
+    for (const [chatId, user] of Object.entries(chats)) {
+      for (const notice of evaluateChatSnapshot(user, snapshot, at)) {
+        const message: ReplayedMessage = {
+          at: new Date(at).toISOString(),
+          file: name,
+          chatId,
+          urgent: notice.urgent,
+          delivery: quietDelivery(user.quietHours, notice.urgent, at),
+          duplicate: lastText[chatId] === notice.text,
+          text: notice.text,
+        };
+        lastText[chatId] = notice.text;
+        out.push(message);
+        sent += 1;
+        const flags = [message.urgent && 'urgent', message.delivery !== 'send' && message.delivery, message.duplicate && 'DUPLICATE']
+          .filter(Boolean)
+          .join(', ');
+        log(`\n→ ${chatId}${flags ? ` (${flags})` : ''}`);
+        log(message.text.replace(/^/gm, '   '));
+      }
+    }
+    if (sent === 0) log('   no messages');
+  }
+
+  const duplicates = out.filter((msg) => msg.duplicate).length;
+  log(`\n${out.length} messages, ${duplicates} repeating the previous message to the same chat`);
+  return out;
+}
+
+async function main(): Promise<void> {
+  let options: ReplayOptions;
+  try {
+    options = parseArgs(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(err?.message ?? err);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  const messages = await replay(options);
+  if (options.outPath) {
+    await fs.writeFile(options.outPath, JSON.stringify(messages, null, 2) + '\n', 'utf8');
+    console.log(`Saved to ${options.outPath}`);
+  }
+}
+
+if (require.main === module) {
+  main().catch((err: any) => {
+    console.error('Replay failed:', err?.message ?? err);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,337 @@
+import { Lang, messages } from './i18n';
+
+// Structured model of the LOE hourly outage schedule.
+//
+// LOE publishes the schedule as free text, e.g.:
+//   "Графік погодинних відключень на 28.01.2026"
+//   "Інформація станом на 04:28 28.01.2026"
+//   "Група 1.1. Електроенергії немає з 05:30 до 09:00, з 16:00 до 19:30."
+// Everything that compares or renders schedules works from the parsed model below,
+// so wording or punctuation changes on the LOE side do not look like schedule changes,
+// and the schedule can be shown in the chat's language rather than LOE's wording.
+
+export const MINUTES_PER_DAY = 24 * 60;
+
+export type OutageInterval = {
+  // Minutes from the start of the schedule's day.
+  // `end` may exceed MINUTES_PER_DAY when the range crosses midnight ("з 22:00 до 02:00").
+  start: number;
+  end: number;
+};
+
+export type GroupSchedule = {
+  group: string;
+  intervals: OutageInterval[];
+  // LOE explicitly says there will be power the whole day ("Електроенергія є.")
+  powerOnAllDay: boolean;
+};
+
+export type DaySchedule = {
+  date?: string; // YYYY-MM-DD, taken from "Графік ... на DD.MM.YYYY"
+  updatedAt?: string; // YYYY-MM-DDTHH:MM (Kyiv), taken from "Інформація станом на HH:MM DD.MM.YYYY"
+  headerLines: string[]; // usually "Графік ...", "Інформація станом ..."
+  groups: Record<string, GroupSchedule>;
+};
+
+export function normalizeMultilineText(raw: string): string {
+  return raw
+    .replace(/\r\n/g, '\n')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .join('\n')
+    .trim();
+}
+
+export function normalizeGroupId(raw: string): string | null {
+  const s = raw.trim();
+  if (!s) return null;
+  // Accept both dot and comma between numbers: 1.1 or 1,1
+  const m = s.match(/^(\d+)[.,](\d+)$/);
+  if (!m) return null;
+  return `${Number(m[1])}.${Number(m[2])}`;
+}
+
+const GROUP_LINE_RE = /^Група\s+(\d+[.,]\d+)\./i;
+const INTERVAL_RE = /з\s+(\d{1,2})[:.](\d{2})\s+до\s+(\d{1,2})[:.](\d{2})/gi;
+const POWER_ON_ALL_DAY_RE = /Електроенергія\s+(є|буде)|без\s+відключень/i;
+const SCHEDULE_DATE_RE = /на\s+(\d{1,2})\.(\d{1,2})\.(\d{4})/;
+const UPDATED_AT_RE = /станом\s+на\s+(\d{1,2})[:.](\d{2})\s+(\d{1,2})\.(\d{1,2})\.(\d{4})/i;
+
+function toMinutes(hours: string, minutes: string): number | null {
+  const h = Number(hours);
+  const m = Number(minutes);
+  if (!Number.isInteger(h) || !Number.isInteger(m) || h < 0 || h > 24 || m < 0 || m > 59) return null;
+  if (h === 24 && m !== 0) return null;
+  return h * 60 + m;
+}
+
+export function normalizeIntervals(intervals: OutageInterval[]): OutageInterval[] {
+  const sorted = intervals
+    .filter((i) => Number.isFinite(i.start) && Number.isFinite(i.end) && i.end > i.start)
+    .map((i) => ({ start: i.start, end: i.end }))
+    .sort((a, b) => a.start - b.start || a.end - b.end);
+  return sorted.filter((i, idx) => idx === 0 || i.start !== sorted[idx - 1].start || i.end !== sorted[idx - 1].end);
+}
+
+export function parseOutageIntervals(line: string): OutageInterval[] {
+  const out: OutageInterval[] = [];
+  const re = new RegExp(INTERVAL_RE.source, INTERVAL_RE.flags);
+  let m: RegExpExecArray | null;
+  while ((m = re.exec(line)) !== null) {
+    const start = toMinutes(m[1], m[2]);
+    let end = toMinutes(m[3], m[4]);
+    if (start === null || end === null || start >= MINUTES_PER_DAY) continue;
+    // "з 22:00 до 02:00" — the outage continues into the next day
+    if (end <= start) end += MINUTES_PER_DAY;
+    out.push({ start, end });
+  }
+  return normalizeIntervals(out);
+}
+
+export function parseGroupLine(line: string): GroupSchedule | null {
+  const m = line.match(GROUP_LINE_RE);
+  if (!m) return null;
+  const group = normalizeGroupId(m[1]);
+  if (!group) return null;
+  const intervals = parseOutageIntervals(line);
+  return {
+    group,
+    intervals,
+    powerOnAllDay: intervals.length === 0 && POWER_ON_ALL_DAY_RE.test(line),
+  };
+}
+
+function toIsoDate(dayText: string, monthText: string, year: string): string | undefined {
+  const day = Number(dayText);
+  const month = Number(monthText);
+  if (day < 1 || day > 31 || month < 1 || month > 12) return undefined;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+export function parseScheduleDate(text: string): string | undefined {
+  const m = text.match(SCHEDULE_DATE_RE);
+  return m ? toIsoDate(m[1], m[2], m[3]) : undefined;
+}
+
+export function parseScheduleUpdatedAt(text: string): string | undefined {
+  const m = text.match(UPDATED_AT_RE);
+  if (!m) return undefined;
+  const minutes = toMinutes(m[1], m[2]);
+  const date = toIsoDate(m[3], m[4], m[5]);
+  if (minutes === null || minutes >= MINUTES_PER_DAY || !date) return undefined;
+  return `${date}T${formatMinutes(minutes)}`;
+}
+
+export function parseGroupSchedulesFromText(text: string): Record<string, GroupSchedule> {
+  const map: Record<string, GroupSchedule> = {};
+  for (const line of normalizeMultilineText(text).split('\n')) {
+    const parsed = parseGroupLine(line);
+    if (parsed) map[parsed.group] = parsed;
+  }
+  return map;
+}
+
+export function parseDaySchedule(text: string): DaySchedule {
+  const lines = normalizeMultilineText(text).split('\n').filter((l) => l.length > 0);
+  const groups = parseGroupSchedulesFromText(text);
+
+  // Keep the top 2 lines if present (usually "Графік ...", "Інформація станом ...")
+  const headerLines = lines.slice(0, 2).filter((l) => !GROUP_LINE_RE.test(l));
+  const titleLine = headerLines.find((l) => /Графік/i.test(l));
+  const infoLine = headerLines.find((l) => /станом/i.test(l));
+
+  return {
+    date: titleLine ? parseScheduleDate(titleLine) : undefined,
+    updatedAt: infoLine ? parseScheduleUpdatedAt(infoLine) : undefined,
+    headerLines,
+    groups,
+  };
+}
+
+// Narrow a parsed schedule down to the groups a chat watches.
+export function pickGroups(schedule: DaySchedule, groups: string[]): DaySchedule {
+  const picked: Record<string, GroupSchedule> = {};
+  for (const g of groups) {
+    if (schedule.groups[g]) picked[g] = schedule.groups[g];
+  }
+  return { date: schedule.date, updatedAt: schedule.updatedAt, headerLines: [...schedule.headerLines], groups: picked };
+}
+
+export function sameGroupSchedule(a: GroupSchedule | undefined, b: GroupSchedule | undefined): boolean {
+  if (!a || !b) return a === b;
+  if (a.powerOnAllDay !== b.powerOnAllDay) return false;
+  const ai = normalizeIntervals(a.intervals);
+  const bi = normalizeIntervals(b.intervals);
+  return ai.length === bi.length && ai.every((x, idx) => x.start === bi[idx].start && x.end === bi[idx].end);
+}
+
+export function sameSchedulesForGroups(a: DaySchedule, b: DaySchedule, groups: string[]): boolean {
+  return groups.every((g) => sameGroupSchedule(a.groups[g], b.groups[g]));
+}
+
+export function formatMinutes(minutes: number): string {
+  // 24:00 reads better than 00:00 as the end of a day
+  const m = minutes > 0 && minutes % MINUTES_PER_DAY === 0 ? MINUTES_PER_DAY : minutes % MINUTES_PER_DAY;
+  const h = Math.floor(m / 60);
+  return `${String(h).padStart(2, '0')}:${String(m % 60).padStart(2, '0')}`;
+}
+
+export function formatOutageInterval(i: OutageInterval, lang: Lang): string {
+  return messages(lang).outageInterval(formatMinutes(i.start), formatMinutes(i.end));
+}
+
+export function formatGroupSchedule(group: string, g: GroupSchedule | undefined, missingNote: string, lang: Lang): string {
+  const m = messages(lang);
+  if (!g) return `${m.groupLabel(group)} ${missingNote}`;
+  if (g.intervals.length > 0) {
+    return [m.groupLabel(group), m.noPower, ...g.intervals.map((i) => formatOutageInterval(i, lang))].join('\n');
+  }
+  if (g.powerOnAllDay) return [m.groupLabel(group), m.powerOnAllDay].join('\n');
+  return `${m.groupLabel(group)} ${m.scheduleUnrecognized}`;
+}
+
+// "2026-01-28" -> "28.01.2026"
+function formatScheduleDate(date: string): string {
+  const [y, mo, d] = date.split('-');
+  return `${d}.${mo}.${y}`;
+}
+
+// "Графік ... на DD.MM.YYYY" / "Інформація станом на ..." rebuilt from the parsed fields. LOE's own
+// lines are only used when nothing could be parsed from them, and then only in Ukrainian.
+export function formatScheduleHeader(schedule: DaySchedule, lang: Lang): string[] {
+  const m = messages(lang);
+  if (!schedule.date && !schedule.updatedAt) return lang === 'uk' ? [...schedule.headerLines] : [];
+  const lines: string[] = [];
+  if (schedule.date) lines.push(m.scheduleTitle(formatScheduleDate(schedule.date)));
+  if (schedule.updatedAt) lines.push(formatScheduleUpdatedAt(schedule.updatedAt, lang));
+  return lines;
+}
+
+export function formatScheduleUpdatedAt(updatedAt: string, lang: Lang): string {
+  const [date, time] = updatedAt.split('T');
+  return messages(lang).scheduleAsOf(time, formatScheduleDate(date));
+}
+
+export function formatDaySchedule(schedule: DaySchedule, groups: string[], missingNote: string, lang: Lang): string {
+  const groupBlocks = groups.map((g) => formatGroupSchedule(g, schedule.groups[g], missingNote, lang));
+  return [...formatScheduleHeader(schedule, lang), '', groupBlocks.join('\n\n')].join('\n').trim();
+}
+
+// Validate a schedule loaded from persisted JSON.
+export function normalizeDaySchedule(input: any): DaySchedule | undefined {
+  if (!input || typeof input !== 'object') return undefined;
+  const rawGroups = input.groups && typeof input.groups === 'object' ? (input.groups as Record<string, any>) : {};
+  const groups: Record<string, GroupSchedule> = {};
+  for (const [key, raw] of Object.entries(rawGroups)) {
+    const group = normalizeGroupId(key);
+    if (!group || !raw || typeof raw !== 'object') continue;
+    const intervals = Array.isArray(raw.intervals)
+      ? normalizeIntervals(
+          raw.intervals
+            .filter((i: any) => i && typeof i === 'object')
+            .map((i: any) => ({ start: Number(i.start), end: Number(i.end) })),
+        )
+      : [];
+    groups[group] = { group, intervals, powerOnAllDay: Boolean(raw.powerOnAllDay) };
+  }
+  const headerLines: string[] = Array.isArray(input.headerLines)
+    ? input.headerLines.filter((l: any) => typeof l === 'string')
+    : [];
+  // Snapshots stored before `updatedAt` existed still have it in their header lines
+  const infoLine = headerLines.find((l) => /станом/i.test(l));
+  return {
+    date: typeof input.date === 'string' ? input.date : undefined,
+    updatedAt:
+      typeof input.updatedAt === 'string' ? input.updatedAt : infoLine ? parseScheduleUpdatedAt(infoLine) : undefined,
+    headerLines,
+    groups,
+  };
+}
+
+export type IntervalChange =
+  | { kind: 'added'; interval: OutageInterval }
+  | { kind: 'removed'; interval: OutageInterval }
+  | { kind: 'extended' | 'shortened' | 'moved'; from: OutageInterval; to: OutageInterval };
+
+function overlapMinutes(a: OutageInterval, b: OutageInterval): number {
+  return Math.max(0, Math.min(a.end, b.end) - Math.max(a.start, b.start));
+}
+
+// Pair every new interval with the old one it overlaps most; whatever is left unpaired
+// was added or removed. Paired intervals are classified by how their bounds moved.
+export function diffGroupSchedule(prev: GroupSchedule | undefined, next: GroupSchedule | undefined): IntervalChange[] {
+  const before = normalizeIntervals(prev?.intervals ?? []);
+  const after = normalizeIntervals(next?.intervals ?? []);
+  const matchedBefore = new Set<number>();
+  const changes: IntervalChange[] = [];
+
+  for (const to of after) {
+    let best = -1;
+    let bestOverlap = 0;
+    before.forEach((from, idx) => {
+      if (matchedBefore.has(idx)) return;
+      const overlap = overlapMinutes(from, to);
+      if (overlap > bestOverlap) {
+        best = idx;
+        bestOverlap = overlap;
+      }
+    });
+
+    if (best === -1) {
+      changes.push({ kind: 'added', interval: to });
+      continue;
+    }
+    matchedBefore.add(best);
+    const from = before[best];
+    if (from.start === to.start && from.end === to.end) continue;
+    if (to.start <= from.start && to.end >= from.end) changes.push({ kind: 'extended', from, to });
+    else if (to.start >= from.start && to.end <= from.end) changes.push({ kind: 'shortened', from, to });
+    else changes.push({ kind: 'moved', from, to });
+  }
+
+  before.forEach((interval, idx) => {
+    if (!matchedBefore.has(idx)) changes.push({ kind: 'removed', interval });
+  });
+
+  const startOf = (c: IntervalChange) => ('interval' in c ? c.interval.start : Math.min(c.from.start, c.to.start));
+  return changes.sort((a, b) => startOf(a) - startOf(b));
+}
+
+function formatRange(i: OutageInterval): string {
+  return `${formatMinutes(i.start)}–${formatMinutes(i.end)}`;
+}
+
+export function formatIntervalChange(c: IntervalChange, lang: Lang): string {
+  const m = messages(lang);
+  switch (c.kind) {
+    case 'added':
+      return m.diffAdded(formatRange(c.interval));
+    case 'removed':
+      return m.diffRemoved(formatRange(c.interval));
+    case 'extended':
+      return m.diffExtended(formatRange(c.from), formatRange(c.to));
+    case 'shortened':
+      return m.diffShortened(formatRange(c.from), formatRange(c.to));
+    case 'moved':
+      return m.diffMoved(formatRange(c.from), formatRange(c.to));
+  }
+}
+
+// Human-readable per-group diff; empty string when the watched groups did not change.
+export function formatScheduleDiff(prev: DaySchedule, next: DaySchedule, groups: string[], lang: Lang): string {
+  const m = messages(lang);
+  const blocks: string[] = [];
+  for (const g of groups) {
+    const before = prev.groups[g];
+    const after = next.groups[g];
+    if (sameGroupSchedule(before, after)) continue;
+
+    const lines = diffGroupSchedule(before, after).map((c) => formatIntervalChange(c, lang));
+    if (after?.powerOnAllDay && !before?.powerOnAllDay) lines.push(m.diffPowerOnAllDay);
+    if (!after) lines.push(m.diffGroupGone);
+    if (lines.length === 0) continue;
+    blocks.push([m.diffGroupHeader(g), ...lines].join('\n'));
+  }
+  return blocks.join('\n\n');
+}
@@ -0,0 +1,118 @@
+import http from 'node:http';
+import { Telegraf } from 'telegraf';
+
+// The bot's HTTP server. It runs in BOT_MODE=webhook and whenever calendar feeds are enabled:
+// - POST <webhook path>: Telegram updates, only with the secret in the X-Telegram-Bot-Api-Secret-Token
+//   header (anything else gets 403). Telegram redelivers an update that is not answered in time, so
+//   each one is acknowledged as soon as it is read and handled afterwards.
+// - GET /calendar/<token>.ics: a chat's outage calendar feed
+// - GET /healthz: for the hosting platform's health checks
+
+export type HttpServerOptions = {
+  port: number;
+  webhook?: { bot: Telegraf<any>; path: string; secretToken: string };
+  // Calendar body for a feed token, or undefined when no chat has that token
+  calendarFeed?: (token: string) => Promise<string | undefined>;
+};
+
+const CALENDAR_FEED_RE = /^\/calendar\/([a-f0-9]{32})\.ics$/;
+
+// Updates acknowledged but still being handled; shutdown waits for them
+const inFlightUpdates = new Set<Promise<void>>();
+
+// Telegram only accepts 1-256 characters of A-Z, a-z, 0-9, _ and -
+export function isValidSecretToken(token: string): boolean {
+  return /^[A-Za-z0-9_-]{1,256}$/.test(token);
+}
+
+// "https://bot.example.com/" + "/telegram" -> "https://bot.example.com/telegram"
+export function publicUrl(baseUrl: string, path: string): string {
+  return `${baseUrl.replace(/\/+$/, '')}${path}`;
+}
+
+async function serveCalendarFeed(
+  calendarFeed: NonNullable<HttpServerOptions['calendarFeed']>,
+  token: string,
+  res: http.ServerResponse,
+): Promise<void> {
+  const ics = await calendarFeed(token);
+  if (ics === undefined) {
+    res.writeHead(404).end();
+    return;
+  }
+  res.writeHead(200, { 'Content-Type': 'text/calendar; charset=utf-8', 'Cache-Control': 'no-cache' }).end(ics);
+}
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+}
+
+async function acceptUpdate(
+  webhook: NonNullable<HttpServerOptions['webhook']>,
+  req: http.IncomingMessage,
+  res: http.ServerResponse,
+): Promise<void> {
+  if (req.headers['x-telegram-bot-api-secret-token'] !== webhook.secretToken) {
+    res.writeHead(403).end();
+    return;
+  }
+  let update: any;
+  try {
+    update = JSON.parse(await readBody(req));
+  } catch {
+    res.writeHead(400).end();
+    return;
+  }
+  res.writeHead(200).end();
+
+  const handling = webhook.bot
+    .handleUpdate(update)
+    .catch((err: any) => console.error(`Failed to handle update ${update?.update_id}:`, err?.message ?? err))
+    .finally(() => inFlightUpdates.delete(handling));
+  inFlightUpdates.add(handling);
+}
+
+export function startHttpServer(opts: HttpServerOptions): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    const pathname = (req.url ?? '/').split('?')[0];
+    if (req.method === 'GET' && pathname === '/healthz') {
+      res.writeHead(200, { 'Content-Type': 'text/plain' }).end('ok');
+      return;
+    }
+    let handled: Promise<unknown>;
+    const feed = req.method === 'GET' ? pathname.match(CALENDAR_FEED_RE) : null;
+    if (feed && opts.calendarFeed) handled = serveCalendarFeed(opts.calendarFeed, feed[1], res);
+    else if (opts.webhook && req.method === 'POST' && pathname === opts.webhook.path) handled = acceptUpdate(opts.webhook, req, res);
+    else {
+      res.writeHead(404).end();
+      return;
+    }
+    handled.catch((err: any) => {
+      console.error(`HTTP ${req.method} ${pathname} failed:`, err?.message ?? err);
+      if (!res.headersSent) res.statusCode = 500;
+      if (!res.writableEnded) res.end();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(opts.port, () => {
+      server.off('error', reject);
+      resolve(server);
+    });
+  });
+}
+
+// Stop accepting new connections and wait for in-flight updates to finish.
+export async function closeHttpServer(server: http.Server): Promise<void> {
+  await new Promise<void>((resolve) => {
+    server.close(() => resolve());
+    server.closeIdleConnections();
+  });
+  await Promise.all(inFlightUpdates);
+}
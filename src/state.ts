@@ -0,0 +1,175 @@
+import { DaySchedule, normalizeDaySchedule } from './schedule';
+import { findProvider } from './providers';
+import { HeldMessage, QuietHours } from './quiet';
+import { isLang, Lang } from './i18n';
+import { MAX_REMIND_LEAD_MINUTES } from './reminders';
+
+// Persisted per-chat state and its validation. Storage backends (see ./storage) only move
+// these objects around; every value read back goes through normalizeUserState.
+
+export type IsoDateString = string;
+
+export type UserState = {
+  // Schedule source (see ./providers); undefined = LOE
+  providerId?: string;
+
+  // New LOE "group" tracking
+  groups?: string[]; // e.g. ["1.1", "3.2"]
+  pendingStep?: 'groups' | 'groups_add' | 'groups_remove';
+
+  watching: boolean;
+
+  // Language of the chat's messages (/lang); set from Telegram's language_code on first contact
+  lang?: Lang;
+
+  // LOE-based tracking snapshot (for watched groups)
+  lastLoeCheckedAt?: IsoDateString;
+  lastLoeNotifiedAt?: IsoDateString;
+  lastLoeSchedule?: DaySchedule;
+  lastLoeError?: string;
+  lastLoeImageHash?: string; // picture the chat last got, to report image-only changes
+
+  // LOE "Tomorrow" tracking snapshot (for watched groups)
+  lastLoeTomorrowCheckedAt?: IsoDateString;
+  lastLoeTomorrowNotifiedAt?: IsoDateString;
+  lastLoeTomorrowSchedule?: DaySchedule;
+  lastLoeTomorrowStatus?: 'missing' | 'present';
+  lastLoeTomorrowError?: string;
+  lastLoeTomorrowImageHash?: string;
+
+  // Last failed Telegram delivery, kept apart from the schedule fetch errors above
+  lastDeliveryError?: string;
+  lastDeliveryErrorAt?: IsoDateString;
+
+  // Reminders before outages / power return, in minutes (e.g. [60, 15]); undefined = off
+  remindLeadMinutes?: number[];
+  sentReminderKeys?: string[];
+
+  // Quiet hours (Kyiv time) and notifications held until they end (mode 'hold')
+  quietHours?: QuietHours;
+  heldMessages?: HeldMessage[];
+
+  // Daily digest time (minutes from midnight, Kyiv) and the Kyiv date it was last sent
+  digestAt?: number;
+  lastDigestDate?: string;
+
+  // Secret part of this chat's calendar feed URL (/calendar link); undefined = no feed
+  calendarToken?: string;
+
+  // Address from /address; kept so the group can be re-resolved when the dataset changes
+  address?: {
+    city?: string;
+    street: string;
+    house: string;
+    group?: string; // group the address resolved to (and that was added to `groups`)
+    datasetVersion?: string;
+  };
+
+  // Stored fields this version does not know (e.g. written by a newer one), kept as they were and
+  // written back at the top level on save, so a round trip through this version does not lose them
+  extra?: Record<string, unknown>;
+};
+
+export type BotState = {
+  users: Record<string, UserState>;
+};
+
+export function normalizeUserState(raw: any): UserState {
+  const u = raw && typeof raw === 'object' ? (raw as any) : {};
+  const pending =
+    u.pendingStep === 'groups' || u.pendingStep === 'groups_add' || u.pendingStep === 'groups_remove'
+      ? (u.pendingStep as UserState['pendingStep'])
+      : undefined;
+
+  const user: UserState = {
+    providerId: typeof u.providerId === 'string' && findProvider(u.providerId) ? u.providerId : undefined,
+    groups: Array.isArray(u.groups) ? u.groups.filter((x: any) => typeof x === 'string') : undefined,
+    pendingStep: pending,
+    watching: Boolean(u.watching),
+    lang: isLang(u.lang) ? u.lang : undefined,
+    lastLoeCheckedAt: typeof u.lastLoeCheckedAt === 'string' ? u.lastLoeCheckedAt : undefined,
+    lastLoeNotifiedAt: typeof u.lastLoeNotifiedAt === 'string' ? u.lastLoeNotifiedAt : undefined,
+    lastLoeSchedule: normalizeDaySchedule(u.lastLoeSchedule),
+    lastLoeError: typeof u.lastLoeError === 'string' ? u.lastLoeError : undefined,
+    lastLoeImageHash: typeof u.lastLoeImageHash === 'string' ? u.lastLoeImageHash : undefined,
+
+    lastLoeTomorrowCheckedAt: typeof u.lastLoeTomorrowCheckedAt === 'string' ? u.lastLoeTomorrowCheckedAt : undefined,
+    lastLoeTomorrowNotifiedAt:
+      typeof u.lastLoeTomorrowNotifiedAt === 'string' ? u.lastLoeTomorrowNotifiedAt : undefined,
+    lastLoeTomorrowSchedule: normalizeDaySchedule(u.lastLoeTomorrowSchedule),
+    lastLoeTomorrowStatus:
+      u.lastLoeTomorrowStatus === 'missing' || u.lastLoeTomorrowStatus === 'present'
+        ? (u.lastLoeTomorrowStatus as UserState['lastLoeTomorrowStatus'])
+        : undefined,
+    lastLoeTomorrowError: typeof u.lastLoeTomorrowError === 'string' ? u.lastLoeTomorrowError : undefined,
+    lastLoeTomorrowImageHash: typeof u.lastLoeTomorrowImageHash === 'string' ? u.lastLoeTomorrowImageHash : undefined,
+    lastDeliveryError: typeof u.lastDeliveryError === 'string' ? u.lastDeliveryError : undefined,
+    lastDeliveryErrorAt: typeof u.lastDeliveryErrorAt === 'string' ? u.lastDeliveryErrorAt : undefined,
+
+    remindLeadMinutes: Array.isArray(u.remindLeadMinutes)
+      ? u.remindLeadMinutes.filter(
+          (x: any) => Number.isInteger(x) && x >= 0 && x <= MAX_REMIND_LEAD_MINUTES,
+        )
+      : undefined,
+    sentReminderKeys: Array.isArray(u.sentReminderKeys)
+      ? u.sentReminderKeys.filter((x: any) => typeof x === 'string')
+      : undefined,
+    address:
+      u.address && typeof u.address === 'object' && typeof u.address.street === 'string' && typeof u.address.house === 'string'
+        ? {
+            city: typeof u.address.city === 'string' ? u.address.city : undefined,
+            street: u.address.street,
+            house: u.address.house,
+            group: typeof u.address.group === 'string' ? u.address.group : undefined,
+            datasetVersion: typeof u.address.datasetVersion === 'string' ? u.address.datasetVersion : undefined,
+          }
+        : undefined,
+    quietHours:
+      u.quietHours &&
+      typeof u.quietHours === 'object' &&
+      Number.isInteger(u.quietHours.start) &&
+      Number.isInteger(u.quietHours.end) &&
+      (u.quietHours.mode === 'silent' || u.quietHours.mode === 'hold')
+        ? { start: u.quietHours.start, end: u.quietHours.end, mode: u.quietHours.mode }
+        : undefined,
+    digestAt:
+      Number.isInteger(u.digestAt) && u.digestAt >= 0 && u.digestAt < 24 * 60 ? (u.digestAt as number) : undefined,
+    lastDigestDate: typeof u.lastDigestDate === 'string' ? u.lastDigestDate : undefined,
+    calendarToken: typeof u.calendarToken === 'string' && /^[a-f0-9]{32}$/.test(u.calendarToken) ? u.calendarToken : undefined,
+    heldMessages: Array.isArray(u.heldMessages)
+      ? u.heldMessages.filter((m: any) => m && typeof m.at === 'string' && typeof m.text === 'string')
+      : undefined,
+  };
+
+  const extra: Record<string, unknown> = u.extra && typeof u.extra === 'object' ? { ...u.extra } : {};
+  for (const key of Object.keys(u)) {
+    if (!(key in user) && key !== 'extra' && u[key] !== undefined) extra[key] = u[key];
+  }
+  if (Object.keys(extra).length > 0) user.extra = extra;
+  return user;
+}
+
+// The stored form of a chat, with the unknown fields back at the top level
+export function serializeUserState(user: UserState): Record<string, unknown> {
+  const { extra, ...known } = normalizeUserState(user);
+  return { ...extra, ...known };
+}
+
+export function normalizeStateShape(input: any): BotState {
+  const rawUsers = input?.users && typeof input.users === 'object' ? (input.users as Record<string, any>) : {};
+  const users: Record<string, UserState> = {};
+  for (const [chatId, raw] of Object.entries(rawUsers)) {
+    users[chatId] = normalizeUserState(raw);
+  }
+  return { users };
+}
+
+// Stored fields normalizeUserState does not know, with how many chats have them. They are kept in
+// `extra`, not used; the loaders log them so a downgrade or a typo does not go unnoticed.
+export function unknownUserFields(rawUsers: Record<string, any>): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  for (const raw of Object.values(rawUsers)) {
+    for (const key of Object.keys(normalizeUserState(raw).extra ?? {})) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  return [...counts];
+}
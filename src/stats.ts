@@ -0,0 +1,157 @@
+import { formatDuration, totalOutageMinutes } from './digest';
+import { Lang, messages } from './i18n';
+import { formatHistoryDate, ScheduleRevision } from './history';
+import { AbsoluteOutage, outagesForGroup } from './reminders';
+import { DaySchedule, sameSchedulesForGroups } from './schedule';
+import { formatZonedDateTime, shiftDate, zonedClock } from './time';
+
+// Per-group outage figures for /stats_me, computed from the archived schedule revisions.
+// A day counts with the last version LOE published for it; days without any stored
+// version, or whose version does not list the group, are "no data", not "no outages".
+// Revisions count only when the watched groups' outages changed, not the header alone.
+
+export type StatsPeriod = 'week' | 'month';
+
+export const STATS_PERIOD_DAYS: Record<StatsPeriod, number> = { week: 7, month: 30 };
+
+export type OutageStats = {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;
+  groups: string[];
+  // One entry per day of the period; minutes is undefined when the day has no stored schedule
+  days: Array<{ date: string; minutes: Record<string, number | undefined> }>;
+  longest: Record<string, AbsoluteOutage | undefined>;
+  revisedDays: number; // days LOE changed these groups' schedule after first publishing it
+  revisions: number; // all such changes
+};
+
+export function parseStatsPeriod(raw: string): StatsPeriod | undefined {
+  const arg = raw.trim().toLowerCase();
+  if (!arg || arg === 'week' || arg.startsWith('тиж')) return 'week';
+  if (arg === 'month' || arg.startsWith('міс')) return 'month';
+  return undefined;
+}
+
+export function computeOutageStats(
+  revisions: ScheduleRevision[],
+  groups: string[],
+  from: string,
+  to: string,
+): OutageStats {
+  const byDate = new Map<string, ScheduleRevision[]>();
+  for (const rev of revisions) {
+    if (rev.date < from || rev.date > to) continue;
+    byDate.set(rev.date, [...(byDate.get(rev.date) ?? []), rev]);
+  }
+
+  const finals: DaySchedule[] = [];
+  const days: OutageStats['days'] = [];
+  let revisedDays = 0;
+  let revisionCount = 0;
+  for (let date = from; date <= to; date = shiftDate(date, 1)) {
+    const versions = byDate.get(date) ?? [];
+    const last = versions[versions.length - 1];
+    if (last) finals.push({ ...last.schedule, date });
+
+    const minutes: Record<string, number | undefined> = {};
+    for (const g of groups) {
+      const schedule = last?.schedule.groups[g];
+      minutes[g] = schedule ? totalOutageMinutes(schedule) : undefined;
+    }
+    days.push({ date, minutes });
+
+    let changes = 0;
+    for (let i = 1; i < versions.length; i += 1) {
+      if (!sameSchedulesForGroups(versions[i - 1].schedule, versions[i].schedule, groups)) changes += 1;
+    }
+    if (changes > 0) revisedDays += 1;
+    revisionCount += changes;
+  }
+
+  // Outages crossing midnight are merged first, so "22:00–02:00" counts as one outage
+  const longest: OutageStats['longest'] = {};
+  for (const g of groups) {
+    longest[g] = outagesForGroup(finals, g).reduce<AbsoluteOutage | undefined>(
+      (best, o) => (!best || o.end - o.start > best.end - best.start ? o : best),
+      undefined,
+    );
+  }
+
+  return { from, to, groups, days, longest, revisedDays, revisions: revisionCount };
+}
+
+// "4:30" — hours:minutes keeps the table narrow
+function formatHours(minutes: number | undefined): string {
+  if (minutes === undefined) return '—';
+  return `${Math.floor(minutes / 60)}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+function sumKnown(values: Array<number | undefined>): { total: number; known: number } {
+  const known = values.filter((v): v is number => v !== undefined);
+  return { total: known.reduce((a, b) => a + b, 0), known: known.length };
+}
+
+function shortDate(date: string): string {
+  return formatHistoryDate(date).slice(0, 5);
+}
+
+// The table is sent inside <pre> so the columns line up; everything in it is digits and dates.
+export function formatOutageStats(stats: OutageStats, period: StatsPeriod, lang: Lang): string {
+  const m = messages(lang);
+  const { groups, days } = stats;
+  // A week is shown day by day; a month as 7-day blocks ending on the last day
+  const rows: Array<{ label: string; minutes: Array<number | undefined> }> = [];
+  if (period === 'week') {
+    for (const d of days) rows.push({ label: shortDate(d.date), minutes: groups.map((g) => d.minutes[g]) });
+  } else {
+    for (let end = days.length; end > 0; end -= 7) {
+      const chunk = days.slice(Math.max(0, end - 7), end);
+      rows.unshift({
+        label: `${shortDate(chunk[0].date)}–${shortDate(chunk[chunk.length - 1].date)}`,
+        minutes: groups.map((g) => {
+          const { total, known } = sumKnown(chunk.map((d) => d.minutes[g]));
+          return known ? total : undefined;
+        }),
+      });
+    }
+  }
+
+  const labelWidth = Math.max(...rows.map((r) => r.label.length), m.statsTotal.length);
+  const colWidth = Math.max(5, ...groups.map((g) => g.length));
+  const line = (label: string, cells: string[]) =>
+    [label.padEnd(labelWidth), ...cells.map((c) => c.padStart(colWidth))].join(' │ ');
+  const totals = groups.map((g) => sumKnown(days.map((d) => d.minutes[g])));
+  const table = [
+    line('', groups),
+    ...rows.map((r) => line(r.label, r.minutes.map(formatHours))),
+    line(m.statsTotal, totals.map((t) => formatHours(t.known ? t.total : undefined))),
+  ];
+
+  const perGroup = groups.map((g, idx) => {
+    const { total, known } = totals[idx];
+    if (!known) return m.statsNoData(g);
+    const longest = stats.longest[g];
+    return [
+      m.statsGroupSummary(g, formatDuration(total, lang), known, formatDuration(Math.round(total / known), lang)),
+      longest
+        ? m.statsLongest(
+            formatDuration(Math.round((longest.end - longest.start) / 60000), lang),
+            formatZonedDateTime(longest.start),
+            zonedClock(longest.end),
+          )
+        : m.statsNoOutages,
+    ].join('\n');
+  });
+
+  return [
+    m.statsTitle(period, formatHistoryDate(stats.from), formatHistoryDate(stats.to)),
+    '',
+    `<pre>${table.join('\n')}</pre>`,
+    '',
+    ...perGroup,
+    '',
+    stats.revisions
+      ? m.statsRevisions(stats.revisions, stats.revisedDays)
+      : m.statsNoRevisions,
+  ].join('\n');
+}
@@ -0,0 +1,19 @@
+import { createJsonStorage } from './json';
+import { createSqliteStorage } from './sqlite';
+import { StateStorage, UnreadableStateAction } from './types';
+
+export * from './types';
+
+export type StorageConfig = {
+  backend: string; // 'json' | 'sqlite'
+  jsonPath: string;
+  historyJsonPath: string;
+  sqlitePath: string;
+  onUnreadable: UnreadableStateAction;
+};
+
+export async function createStorage(config: StorageConfig): Promise<StateStorage> {
+  if (config.backend === 'json') return createJsonStorage(config.jsonPath, config.historyJsonPath, config.onUnreadable);
+  if (config.backend === 'sqlite') return createSqliteStorage(config.sqlitePath, config.jsonPath, config.onUnreadable);
+  throw new Error(`Unknown STATE_BACKEND "${config.backend}" (expected "json" or "sqlite")`);
+}
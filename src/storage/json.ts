@@ -0,0 +1,133 @@
+import fs from 'node:fs/promises';
+import { normalizeDaySchedule } from '../schedule';
+import { ScheduleRevision } from '../history';
+import { migrateChats, STATE_SCHEMA_VERSION, storedSchemaVersion } from '../migrations';
+import { BotState, normalizeStateShape, serializeUserState, unknownUserFields } from '../state';
+import { StateStorage, UnreadableStateAction } from './types';
+
+// Suffix for backup and quarantine copies, e.g. "2026-01-28T05-25-37-530Z"
+export function fileStamp(): string {
+  return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+// Stored fields the bot does not know are kept as they are, and logged (see unknownUserFields).
+export function warnUnknownFields(source: string, rawUsers: Record<string, any>): void {
+  const unknown = unknownUserFields(rawUsers);
+  if (unknown.length === 0) return;
+  console.warn(`${source}: keeping unknown fields as they are: ${unknown.map(([key, n]) => `${key} (${n} chats)`).join(', ')}`);
+}
+
+async function unreadableStateFile(filePath: string, reason: string, onUnreadable: UnreadableStateAction): Promise<BotState> {
+  if (onUnreadable !== 'quarantine') {
+    throw new Error(
+      `${filePath} is unreadable (${reason}). Fix or remove it, or set STATE_ON_UNREADABLE=quarantine to move it aside and start empty.`,
+    );
+  }
+  const quarantined = `${filePath}.unreadable-${fileStamp()}`;
+  await fs.rename(filePath, quarantined);
+  console.error(`${filePath} is unreadable (${reason}); moved it to ${quarantined} and starting with no chats`);
+  return { users: {} };
+}
+
+// Reads and migrates a state file. `backup` keeps a copy of the file as it was before migrating,
+// for callers that are going to overwrite it.
+export async function readJsonStateFile(
+  filePath: string,
+  options: { onUnreadable?: UnreadableStateAction; backup?: boolean } = {},
+): Promise<BotState> {
+  const onUnreadable = options.onUnreadable ?? 'fail';
+  let raw: string;
+  try {
+    raw = await fs.readFile(filePath, 'utf8');
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return { users: {} };
+    throw err;
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(raw);
+    if (!parsed || typeof parsed !== 'object' || !parsed.users || typeof parsed.users !== 'object') {
+      throw new Error('no "users" object');
+    }
+  } catch (err: any) {
+    return unreadableStateFile(filePath, err?.message ?? String(err), onUnreadable);
+  }
+
+  // A file from a newer bot is readable, just not by us: never quarantine it
+  let fromVersion: number;
+  try {
+    fromVersion = storedSchemaVersion(parsed);
+  } catch (err: any) {
+    throw new Error(`${filePath}: ${err?.message ?? err}`);
+  }
+  if (fromVersion < STATE_SCHEMA_VERSION) {
+    if (options.backup) {
+      const backupPath = `${filePath}.v${fromVersion}-${fileStamp()}.bak`;
+      await fs.writeFile(backupPath, raw, 'utf8');
+      console.log(`Backed up ${filePath} (schema v${fromVersion}) to ${backupPath}`);
+    }
+    migrateChats(parsed.users, fromVersion);
+  }
+  warnUnknownFields(filePath, parsed.users);
+  return normalizeStateShape(parsed);
+}
+
+// The history file is rewritten on every new revision, so it only keeps recent days.
+const JSON_HISTORY_RETENTION_DAYS = 100;
+
+function normalizeRevision(raw: any): ScheduleRevision | undefined {
+  const schedule = normalizeDaySchedule(raw?.schedule);
+  if (!schedule || typeof raw.providerId !== 'string' || typeof raw.date !== 'string') return undefined;
+  if (typeof raw.seenAt !== 'string' || typeof raw.contentHash !== 'string') return undefined;
+  return { providerId: raw.providerId, date: raw.date, seenAt: raw.seenAt, contentHash: raw.contentHash, schedule };
+}
+
+async function readHistoryFile(filePath: string): Promise<ScheduleRevision[]> {
+  try {
+    const parsed = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    const revisions = Array.isArray(parsed?.revisions) ? parsed.revisions : [];
+    return revisions.map(normalizeRevision).filter((r: ScheduleRevision | undefined): r is ScheduleRevision => Boolean(r));
+  } catch (err: any) {
+    if (err?.code === 'ENOENT') return [];
+    throw err;
+  }
+}
+
+// Whole-state JSON file. Simple and fine for small deployments.
+export function createJsonStorage(
+  filePath: string,
+  historyPath: string,
+  onUnreadable: UnreadableStateAction,
+): StateStorage {
+  let history: ScheduleRevision[] | undefined;
+  const loadHistory = async () => (history ??= await readHistoryFile(historyPath));
+
+  return {
+    describe: () => `json:${filePath}`,
+    load: () => readJsonStateFile(filePath, { onUnreadable, backup: true }),
+    async save(state: BotState): Promise<void> {
+      const users: Record<string, unknown> = {};
+      for (const [chatId, user] of Object.entries(state.users)) users[chatId] = serializeUserState(user);
+      const tmp = `${filePath}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ schemaVersion: STATE_SCHEMA_VERSION, users }, null, 2), 'utf8');
+      await fs.rename(tmp, filePath);
+    },
+    async addScheduleRevision(rev: ScheduleRevision): Promise<boolean> {
+      const all = await loadHistory();
+      const latest = [...all].reverse().find((r) => r.providerId === rev.providerId && r.date === rev.date);
+      if (latest?.contentHash === rev.contentHash) return false;
+
+      const keepFrom = new Date(Date.now() - JSON_HISTORY_RETENTION_DAYS * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+      history = [...all.filter((r) => r.date >= keepFrom), rev];
+      const tmp = `${historyPath}.tmp`;
+      await fs.writeFile(tmp, JSON.stringify({ revisions: history }), 'utf8');
+      await fs.rename(tmp, historyPath);
+      return true;
+    },
+    async listScheduleRevisions(providerId: string, fromDate: string, toDate: string): Promise<ScheduleRevision[]> {
+      return (await loadHistory()).filter((r) => r.providerId === providerId && r.date >= fromDate && r.date <= toDate);
+    },
+    close: async () => undefined,
+  };
+}
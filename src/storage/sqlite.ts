@@ -0,0 +1,228 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import type { Database } from 'better-sqlite3';
+import { ScheduleRevision } from '../history';
+import { normalizeDaySchedule } from '../schedule';
+import { migrateChats, STATE_SCHEMA_VERSION, storedSchemaVersion } from '../migrations';
+import { BotState, normalizeUserState, serializeUserState } from '../state';
+import { fileStamp, readJsonStateFile, warnUnknownFields } from './json';
+import { StateStorage, UnreadableStateAction } from './types';
+
+// One row per chat; `save` writes only the chats whose serialized state changed, inside a
+// single transaction, so one bad write can never take down every subscription at once.
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS chats (
+    chat_id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS meta (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS schedule_revisions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    provider_id TEXT NOT NULL,
+    schedule_date TEXT NOT NULL,
+    seen_at TEXT NOT NULL,
+    content_hash TEXT NOT NULL,
+    schedule TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS schedule_revisions_by_date ON schedule_revisions (provider_id, schedule_date, id);
+`;
+
+const JSON_IMPORT_META_KEY = 'json_imported_from';
+// Version of the chat objects in `chats` (see ../migrations)
+const SCHEMA_VERSION_META_KEY = 'schema_version';
+
+async function fileExists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// A copy of the legacy file that readJsonStateFile moved aside as unreadable
+async function hasQuarantinedCopy(jsonPath: string): Promise<boolean> {
+  const prefix = `${path.basename(jsonPath)}.unreadable-`;
+  try {
+    return (await fs.readdir(path.dirname(jsonPath))).some((name) => name.startsWith(prefix));
+  } catch {
+    return false;
+  }
+}
+
+// One-time import of the legacy label-state.json. Runs only on an empty database and is
+// recorded in `meta`, so deleting chats later never resurrects them from the old file.
+// An unreadable file is never recorded as imported: once it is repaired and put back, it still is.
+async function importJsonOnce(db: Database, jsonPath: string, onUnreadable: UnreadableStateAction): Promise<number> {
+  const done = db.prepare('SELECT value FROM meta WHERE key = ?').get(JSON_IMPORT_META_KEY);
+  if (done) return 0;
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM chats').get() as { count: number };
+  if (count === 0 && !(await fileExists(jsonPath)) && (await hasQuarantinedCopy(jsonPath))) return 0;
+  if (count > 0 || !(await fileExists(jsonPath))) {
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(JSON_IMPORT_META_KEY, '');
+    return 0;
+  }
+
+  // Throws when the file is unreadable, or moves it aside (STATE_ON_UNREADABLE=quarantine)
+  const legacy = await readJsonStateFile(jsonPath, { onUnreadable });
+  if (!(await fileExists(jsonPath))) return 0;
+  const insert = db.prepare('INSERT INTO chats (chat_id, data, updated_at) VALUES (?, ?, ?)');
+  const now = new Date().toISOString();
+  db.transaction(() => {
+    for (const [chatId, user] of Object.entries(legacy.users)) {
+      insert.run(chatId, JSON.stringify(serializeUserState(user)), now);
+    }
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(JSON_IMPORT_META_KEY, jsonPath);
+    // Imported chats are already migrated and normalized
+    db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)').run(SCHEMA_VERSION_META_KEY, String(STATE_SCHEMA_VERSION));
+  })();
+  return Object.keys(legacy.users).length;
+}
+
+// Upgrades every row to the current schema, after copying the database aside. A database without a
+// version and without chats is new; one with chats predates versioning (v0).
+async function migrateChatRows(db: Database, dbPath: string): Promise<void> {
+  const stored = db.prepare('SELECT value FROM meta WHERE key = ?').get(SCHEMA_VERSION_META_KEY) as
+    | { value: string }
+    | undefined;
+  const { count } = db.prepare('SELECT COUNT(*) AS count FROM chats').get() as { count: number };
+  const setVersion = db.prepare('INSERT OR REPLACE INTO meta (key, value) VALUES (?, ?)');
+  if (!stored && count === 0) {
+    setVersion.run(SCHEMA_VERSION_META_KEY, String(STATE_SCHEMA_VERSION));
+    return;
+  }
+  let fromVersion: number;
+  try {
+    fromVersion = storedSchemaVersion({ schemaVersion: stored ? Number(stored.value) : undefined });
+  } catch (err: any) {
+    throw new Error(`${dbPath}: ${err?.message ?? err}`);
+  }
+  if (fromVersion === STATE_SCHEMA_VERSION) return;
+
+  const backupPath = `${dbPath}.v${fromVersion}-${fileStamp()}.bak`;
+  await db.backup(backupPath);
+  console.log(`Backed up ${dbPath} (schema v${fromVersion}) to ${backupPath}`);
+
+  const chats: Record<string, any> = {};
+  for (const row of db.prepare('SELECT chat_id, data FROM chats').all() as Array<{ chat_id: string; data: string }>) {
+    try {
+      chats[row.chat_id] = JSON.parse(row.data);
+    } catch {
+      // Left as is; load() reports it
+    }
+  }
+  migrateChats(chats, fromVersion);
+  const update = db.prepare('UPDATE chats SET data = ? WHERE chat_id = ?');
+  db.transaction(() => {
+    for (const [chatId, chat] of Object.entries(chats)) update.run(JSON.stringify(chat), chatId);
+    setVersion.run(SCHEMA_VERSION_META_KEY, String(STATE_SCHEMA_VERSION));
+  })();
+}
+
+export async function createSqliteStorage(
+  dbPath: string,
+  legacyJsonPath: string,
+  onUnreadable: UnreadableStateAction,
+): Promise<StateStorage> {
+  // Loaded lazily so JSON-only deployments never touch the native module.
+  const { default: DatabaseCtor } = await import('better-sqlite3');
+  const db = new DatabaseCtor(dbPath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('synchronous = NORMAL');
+  db.exec(SCHEMA);
+
+  const imported = await importJsonOnce(db, legacyJsonPath, onUnreadable);
+  if (imported > 0) {
+    console.log(`Imported ${imported} chats from ${legacyJsonPath} into ${dbPath}`);
+  }
+  await migrateChatRows(db, dbPath);
+
+  const upsert = db.prepare(
+    'INSERT INTO chats (chat_id, data, updated_at) VALUES (?, ?, ?) ' +
+      'ON CONFLICT(chat_id) DO UPDATE SET data = excluded.data, updated_at = excluded.updated_at',
+  );
+  const remove = db.prepare('DELETE FROM chats WHERE chat_id = ?');
+  // Last written JSON per chat, to skip rows that did not change
+  const written = new Map<string, string>();
+
+  const latestRevisionHash = db.prepare(
+    'SELECT content_hash FROM schedule_revisions WHERE provider_id = ? AND schedule_date = ? ORDER BY id DESC LIMIT 1',
+  );
+  const insertRevision = db.prepare(
+    'INSERT INTO schedule_revisions (provider_id, schedule_date, seen_at, content_hash, schedule) VALUES (?, ?, ?, ?, ?)',
+  );
+  const selectRevisions = db.prepare(
+    'SELECT provider_id, schedule_date, seen_at, content_hash, schedule FROM schedule_revisions ' +
+      'WHERE provider_id = ? AND schedule_date >= ? AND schedule_date <= ? ORDER BY schedule_date, id',
+  );
+  const addRevision = db.transaction((rev: ScheduleRevision): boolean => {
+    const latest = latestRevisionHash.get(rev.providerId, rev.date) as { content_hash: string } | undefined;
+    if (latest?.content_hash === rev.contentHash) return false;
+    insertRevision.run(rev.providerId, rev.date, rev.seenAt, rev.contentHash, JSON.stringify(rev.schedule));
+    return true;
+  });
+
+  const writeChanges = db.transaction((rows: Array<[string, string]>, removed: string[], now: string) => {
+    for (const [chatId, data] of rows) upsert.run(chatId, data, now);
+    for (const chatId of removed) remove.run(chatId);
+  });
+
+  return {
+    describe: () => `sqlite:${dbPath}`,
+    async load(): Promise<BotState> {
+      const users: BotState['users'] = {};
+      const rawUsers: Record<string, any> = {};
+      written.clear();
+      for (const row of db.prepare('SELECT chat_id, data FROM chats').all() as Array<{ chat_id: string; data: string }>) {
+        try {
+          rawUsers[row.chat_id] = JSON.parse(row.data);
+          users[row.chat_id] = normalizeUserState(rawUsers[row.chat_id]);
+          written.set(row.chat_id, row.data);
+        } catch (err: any) {
+          // A broken row only affects its own chat; keep it in the database for inspection.
+          console.error(`Skipping unreadable state row for chat ${row.chat_id}: ${err?.message ?? err}`);
+        }
+      }
+      warnUnknownFields(dbPath, rawUsers);
+      return { users };
+    },
+    async save(state: BotState): Promise<void> {
+      const rows: Array<[string, string]> = [];
+      for (const [chatId, user] of Object.entries(state.users)) {
+        const data = JSON.stringify(serializeUserState(user));
+        if (written.get(chatId) !== data) rows.push([chatId, data]);
+      }
+      const removed = [...written.keys()].filter((chatId) => !(chatId in state.users));
+      if (rows.length === 0 && removed.length === 0) return;
+
+      writeChanges(rows, removed, new Date().toISOString());
+      for (const [chatId, data] of rows) written.set(chatId, data);
+      for (const chatId of removed) written.delete(chatId);
+    },
+    addScheduleRevision: async (rev: ScheduleRevision) => addRevision(rev),
+    async listScheduleRevisions(providerId: string, fromDate: string, toDate: string): Promise<ScheduleRevision[]> {
+      const rows = selectRevisions.all(providerId, fromDate, toDate) as Array<{
+        provider_id: string;
+        schedule_date: string;
+        seen_at: string;
+        content_hash: string;
+        schedule: string;
+      }>;
+      return rows.map((row) => ({
+        providerId: row.provider_id,
+        date: row.schedule_date,
+        seenAt: row.seen_at,
+        contentHash: row.content_hash,
+        schedule: normalizeDaySchedule(JSON.parse(row.schedule)) ?? { headerLines: [], groups: {} },
+      }));
+    },
+    close: async () => {
+      db.close();
+    },
+  };
+}
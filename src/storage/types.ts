@@ -0,0 +1,18 @@
+import { ScheduleRevision } from '../history';
+import { BotState } from '../state';
+
+// What to do with a state file that cannot be parsed: refuse to start, or move it aside and start empty.
+export type UnreadableStateAction = 'fail' | 'quarantine';
+
+export type StateStorage = {
+  // Human-readable description for startup logs, e.g. "sqlite:/app/label-state.sqlite"
+  describe(): string;
+  load(): Promise<BotState>;
+  // Persist the current in-memory state. Backends may write only what changed.
+  save(state: BotState): Promise<void>;
+  // Archive of published schedules. Returns false when the revision equals the latest stored one for its day.
+  addScheduleRevision(rev: ScheduleRevision): Promise<boolean>;
+  // Revisions for fromDate..toDate (inclusive, YYYY-MM-DD), oldest first.
+  listScheduleRevisions(providerId: string, fromDate: string, toDate: string): Promise<ScheduleRevision[]>;
+  close(): Promise<void>;
+};
@@ -0,0 +1,95 @@
+// LOE publishes schedules in Kyiv local time, while the host usually runs in UTC.
+
+export const KYIV_TIME_ZONE = 'Europe/Kyiv';
+
+const partsFormatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let f = partsFormatterCache.get(timeZone);
+  if (!f) {
+    f = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    partsFormatterCache.set(timeZone, f);
+  }
+  return f;
+}
+
+export type ZonedParts = { year: number; month: number; day: number; hour: number; minute: number; second: number };
+
+export function zonedParts(epochMs: number, timeZone: string = KYIV_TIME_ZONE): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const p of partsFormatter(timeZone).formatToParts(new Date(epochMs))) {
+    if (p.type !== 'literal') parts[p.type] = Number(p.value);
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second,
+  };
+}
+
+function offsetMs(epochMs: number, timeZone: string): number {
+  const p = zonedParts(epochMs, timeZone);
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUtc - Math.floor(epochMs / 1000) * 1000;
+}
+
+// "2026-01-28" + minutes from that day's local midnight -> epoch ms.
+// Minutes past 24:00 roll over into the following days.
+export function zonedDateTimeToEpochMs(date: string, minutes: number, timeZone: string = KYIV_TIME_ZONE): number {
+  const m = date.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!m) throw new Error(`Invalid date: ${date}`);
+  const guess = Date.UTC(Number(m[1]), Number(m[2]) - 1, Number(m[3]), 0, minutes);
+  const first = guess - offsetMs(guess, timeZone);
+  // Re-check once: the offset at the real instant may differ around DST switches.
+  return guess - offsetMs(first, timeZone);
+}
+
+export function zonedDateString(epochMs: number, timeZone: string = KYIV_TIME_ZONE): string {
+  const p = zonedParts(epochMs, timeZone);
+  return `${p.year}-${String(p.month).padStart(2, '0')}-${String(p.day).padStart(2, '0')}`;
+}
+
+export function zonedClock(epochMs: number, timeZone: string = KYIV_TIME_ZONE): string {
+  const p = zonedParts(epochMs, timeZone);
+  return `${String(p.hour).padStart(2, '0')}:${String(p.minute).padStart(2, '0')}`;
+}
+
+// "07:00", "7:00", "7.00" or "7" -> minutes from midnight; "24:00" is midnight.
+export function parseClockMinutes(raw: string): number | null {
+  const m = raw.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?$/);
+  if (!m) return null;
+  const h = Number(m[1]);
+  const min = Number(m[2] ?? 0);
+  if (h > 24 || min > 59 || (h === 24 && min > 0)) return null;
+  return (h * 60 + min) % (24 * 60);
+}
+
+export function zonedMinuteOfDay(epochMs: number, timeZone: string = KYIV_TIME_ZONE): number {
+  const p = zonedParts(epochMs, timeZone);
+  return p.hour * 60 + p.minute;
+}
+
+// Calendar arithmetic on "YYYY-MM-DD" strings, independent of any time zone.
+export function shiftDate(date: string, days: number): string {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// "28.01.2026 07:25" in Kyiv time
+export function formatZonedDateTime(epochMs: number, timeZone: string = KYIV_TIME_ZONE): string {
+  const p = zonedParts(epochMs, timeZone);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(p.day)}.${pad(p.month)}.${p.year} ${pad(p.hour)}:${pad(p.minute)}`;
+}
@@ -0,0 +1,68 @@
+// Posts a fake Telegram update to a bot running locally in webhook mode, the way Telegram would,
+// and prints how long the bot took to acknowledge it. Run the bot with BOT_MODE=webhook and without
+// WEBHOOK_URL (so nothing is registered with Telegram), with the same env in this shell:
+//
+//   npm run webhook:send -- "/check" [--chat 123] [--url http://localhost:3000/telegram]
+//
+// The bot's replies go to the real Telegram API, so --chat must be a chat that has talked to the bot.
+
+const USAGE = 'Usage: node dist/webhook-send.js "<message text>" [--chat id] [--url webhook url]';
+
+function parseArgs(argv: string[]): { text: string; chatId: number; url: string } {
+  let text: string | undefined;
+  let chatId = 1;
+  let url = `http://localhost:${process.env.PORT ?? 3000}${process.env.WEBHOOK_PATH ?? '/telegram'}`;
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--chat') chatId = Number(argv[++i]);
+    else if (arg === '--url') url = argv[++i];
+    else if (!arg.startsWith('--') && text === undefined) text = arg;
+    else throw new Error(`Unexpected argument: ${arg}`);
+  }
+  if (!text) throw new Error('The message text is required');
+  if (!Number.isInteger(chatId)) throw new Error('--chat must be a numeric chat id');
+  return { text, chatId, url };
+}
+
+async function main(): Promise<void> {
+  let args: ReturnType<typeof parseArgs>;
+  try {
+    args = parseArgs(process.argv.slice(2));
+  } catch (err: any) {
+    console.error(err?.message ?? err);
+    console.error(USAGE);
+    process.exitCode = 1;
+    return;
+  }
+  const { text, chatId, url } = args;
+  const now = Math.floor(Date.now() / 1000);
+  const update = {
+    update_id: now,
+    message: {
+      message_id: now,
+      date: now,
+      chat: { id: chatId, type: 'private' },
+      from: { id: chatId, is_bot: false, first_name: 'Test' },
+      text,
+      // Telegram marks a leading command so the bot routes it to its handler
+      ...(text.startsWith('/') ? { entities: [{ type: 'bot_command', offset: 0, length: text.split(/\s/)[0].length }] } : {}),
+    },
+  };
+
+  const startedAt = Date.now();
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'content-type': 'application/json',
+      'x-telegram-bot-api-secret-token': process.env.WEBHOOK_SECRET_TOKEN ?? '',
+    },
+    body: JSON.stringify(update),
+  });
+  console.log(`${url} answered HTTP ${res.status} in ${Date.now() - startedAt} ms`);
+  if (!res.ok) process.exitCode = 1;
+}
+
+main().catch((err: any) => {
+  console.error('Sending the update failed:', err?.message ?? err);
+  process.exitCode = 1;
+});